@@ -1,7 +1,23 @@
+import { type LogLevel } from "./src/log.ts";
+
 export { GHActServer, type HttpHandler } from "./src/GHActServer.ts";
 export { GHActWorker } from "./src/GHActWorker.ts";
 export { GitRepository } from "./src/GitRepository.ts";
-export { combineCommandOutputs, LogFn } from "./src/log.ts";
+export {
+  combineCommandOutputs,
+  LogFn,
+  type LogLevel,
+  type LogOptions,
+  type LogRecord,
+} from "./src/log.ts";
+export {
+  FileSystemJobStore,
+  type JobQuery,
+  type JobStore,
+  SqliteJobStore,
+} from "./src/jobStores.ts";
+export { redact, registerSecret } from "./src/secrets.ts";
+export { type PushEvent, type WebhookAdapter } from "./src/webhookAdapters.ts";
 
 /**
  * Options for configuring GHAct
@@ -28,28 +44,335 @@ export interface Config {
    *
    * Note that authentification via token is only possible for https-uris.
    *
+   * Required unless `sourceRepositories` is set.
+   *
    * e.g `"https://github.com/factsmission/ghact.git"`
    */
-  sourceRepositoryUri: string;
+  sourceRepositoryUri?: string;
   /** Branch to checkout
+   *
+   * Required unless `sourceRepositories` is set.
    *
    * e.g `"main"`
    */
-  sourceBranch: string;
+  sourceBranch?: string;
+  /**
+   * Branches (names or glob patterns) whose pushes are processed, each in its
+   * own checkout. Only pushes to `sourceBranch` are processed if not set.
+   * Ignored if `sourceRepositories` is set.
+   *
+   * e.g `["main", "develop", "release/*"]`
+   */
+  sourceBranches?: string[];
+  /**
+   * Tags (names or glob patterns) for which a TagJob is queued when they are
+   * pushed or a release is published for them. Tags are ignored if not set.
+   * Ignored if `sourceRepositories` is set.
+   *
+   * e.g `["v*"]`
+   */
+  sourceTags?: string[];
   /**
    * Incoming webhooks are compared to this repository name and only processed if it matches
    *
+   * Required unless `sourceRepositories` is set.
+   *
    * e.g `"factsmission/ghact"`
    */
-  sourceRepository: string;
+  sourceRepository?: string;
+  /**
+   * Serve several source repositories with one GHAct instance, replaces
+   * `sourceRepositoryUri`, `sourceBranch` and `sourceRepository`.
+   *
+   * Incoming webhooks are routed to the repository by its name. The data of
+   * each repository (checkout, manifest and status badge) is kept in
+   * `${workDir}/repositories/${encodeURIComponent(name)}`,
+   * the jobs of all repositories share the queue in `${workDir}/jobs`.
+   *
+   * e.g. `[{ name: "factsmission/ghact", uri: "https://github.com/factsmission/ghact.git", branch: "main" }]`
+   */
+  sourceRepositories?: SourceRepository[];
   /**
    * Where to store data, logs, jobs etc.
    *
    * e.g. `"/workdir"`
    */
   workDir: string;
+  /**
+   * How the status of the jobs in `${workDir}/jobs` is stored:
+   * - `"filesystem"` (default): as `status.json` in the directory of each job.
+   *   It has no index: every query, including the filters of `/jobs.json`,
+   *   reads the status of all jobs.
+   * - `"sqlite"`: in the SQLite database `${workDir}/jobs/jobs.sqlite`, which
+   *   stays fast with many thousand jobs. Jobs stored as `status.json` are
+   *   imported when the database is created.
+   */
+  jobStore?: "filesystem" | "sqlite";
+  /**
+   * Minimum level of the job log messages printed to the console, all
+   * messages are written to the logs of the jobs regardless.
+   *
+   * Defaults to `"info"`
+   */
+  logLevel?: LogLevel;
+  /**
+   * Additionally write the log of each job as JSON lines (see `LogRecord`) to
+   * `${workDir}/jobs/${id}/log.jsonl`, with the level and a timestamp of every
+   * message and line of command output.
+   */
+  jsonLog?: boolean;
+  /**
+   * Retry failed jobs automatically. If not set, failed jobs are not retried
+   * (they can still be retried manually via `POST /jobs/{id}/retry`).
+   *
+   * e.g. `{ maxAttempts: 3, retryableErrors: ["Cloning of .* failed"] }`
+   */
+  retry?: RetryPolicy;
+  /**
+   * Remove old jobs (their status and logs) and compress old logs, enforced
+   * every `interval` ms by the server and on `POST /prune`. Queued and running
+   * jobs are never removed. Jobs are kept forever if not set.
+   *
+   * e.g. `{ keepLast: 1000, keepFailedDays: 30, compressLogsAfterDays: 7 }`
+   */
+  retention?: RetentionPolicy;
+  /**
+   * Time in milliseconds after which a running job is aborted (its `signal`
+   * is aborted) and marked as failed, the worker moves on to the next job once
+   * its handler returned.
+   * Timed out jobs are not retried automatically. Jobs are not limited if not set.
+   *
+   * e.g. `3_600_000` (1h)
+   */
+  jobTimeout?: number;
+  /**
+   * Overrides `jobTimeout` for specific types of jobs
+   *
+   * e.g. `{ full_update_gather: 600_000 }`
+   */
+  jobTimeoutByType?: Partial<Record<JobType, number>>;
+  /**
+   * Time in milliseconds to wait for further webhooks before executing webhook
+   * jobs. If set, the webhook jobs of a branch still queued when no webhook
+   * arrived for this long are merged into a single job spanning all their
+   * changes (except those queued before another job of the branch), the
+   * merged jobs are kept as `superseded`. Webhook jobs are executed right away
+   * if not set.
+   *
+   * e.g. `30_000`
+   */
+  webhookDebounce?: number;
+  /**
+   * Glob patterns of paths (relative to the repository root) to be processed.
+   * Changes to other files are ignored: they are removed from webhook jobs, from
+   * the changes of /update jobs and from full updates. Webhooks without any
+   * matching change are recorded as `skipped`. All files are processed if not
+   * set.
+   *
+   * e.g. `["data/**\/*.xml"]`
+   */
+  include?: string[];
+  /**
+   * Glob patterns of paths (relative to the repository root) to be ignored,
+   * even if they match `include`.
+   *
+   * e.g. `["**\/README.md", ".github/**"]`
+   */
+  exclude?: string[];
+  /**
+   * Report renamed and copied files in `ChangeSummary.renamed` and
+   * `ChangeSummary.copied` (e.g. to move output files instead of deleting and
+   * regenerating them) instead of as removed and added files. Only applies to
+   * changes determined with git (e.g. for /update jobs), not to file lists
+   * taken from webhook payloads.
+   */
+  detectRenames?: boolean;
+  /**
+   * Queue a PullRequestJob when a pull request to a processed branch is opened,
+   * reopened or updated, to preview the results of the `jobHandler` before it
+   * is merged. Pull request webhooks are ignored if not set.
+   */
+  pullRequestPreviews?: boolean;
+  /**
+   * Report the outcome of jobs as commit statuses of their `till` commit
+   * (pending when a job starts, success or failure when it finishes, linking
+   * to its log). Authenticated with the `token` of the source repository or
+   * `GHTOKEN`. Nothing is reported if not set.
+   *
+   * e.g. `{ apiUrl: "https://api.github.com", serverUrl: "https://ghact.example.org" }`
+   */
+  commitStatus?: CommitStatusOptions;
+}
+
+/**
+ * A repository whose changes are processed by GHAct
+ */
+export interface SourceRepository {
+  /**
+   * Full name of the repository, incoming webhooks are routed by it
+   *
+   * e.g `"factsmission/ghact"`
+   */
+  name: string;
+  /**
+   * The uri of the repository to be cloned
+   *
+   * Note that authentification via token is only possible for https-uris.
+   *
+   * e.g `"https://github.com/factsmission/ghact.git"`
+   */
+  uri: string;
+  /** Branch to checkout, the default for /update and /full_update
+   *
+   * e.g `"main"`
+   */
+  branch: string;
+  /**
+   * Branches (names or glob patterns) whose pushes are processed, each in its
+   * own checkout. Only pushes to `branch` are processed if not set.
+   *
+   * e.g `["main", "develop", "release/*"]`
+   */
+  branches?: string[];
+  /**
+   * Tags (names or glob patterns) for which a TagJob is queued when they are
+   * pushed or a release is published for them. Tags are ignored if not set.
+   *
+   * e.g `["v*"]`
+   */
+  tags?: string[];
+  /**
+   * Token to authenticate with, defaults to the GHTOKEN environment variable
+   */
+  token?: string;
 }
 
+/**
+ * - `webhook`: triggered by a webhook, see WebhookJob
+ * - `update`: triggered by a request to /update, see BasicJob
+ * - `full_update`: a chunk of a full update, see FullUpdateJob
+ * - `full_update_gather`: gathering files for a full update, see FullUpdateGatherJob
+ * - `tag`: triggered by pushing a tag or publishing a release, see TagJob
+ * - `pull_request`: previewing the results for a pull request, see PullRequestJob
+ */
+export type JobType =
+  | "webhook"
+  | "update"
+  | "full_update"
+  | "full_update_gather"
+  | "tag"
+  | "pull_request";
+
+/**
+ * Describes if and how often failed jobs are retried by the worker
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts per job, including the first one
+   *
+   * e.g. `3`
+   */
+  maxAttempts: number;
+  /**
+   * Delay before the first retry in milliseconds, it is doubled for every
+   * further retry. Defaults to `1000`.
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound for the delay between attempts in milliseconds. Defaults to
+   * `60000`.
+   */
+  maxDelay?: number;
+  /**
+   * Regular expressions (as strings, as the config is passed to the worker as
+   * a message) matched against the error message. Only matching errors are
+   * retried. If not set, all errors are retried.
+   *
+   * e.g. `["Cloning of .* failed"]`
+   */
+  retryableErrors?: string[];
+}
+
+/**
+ * Which jobs are removed when pruning, see `Config.retention`. The jobs of a
+ * full update are kept or removed together with their full_update_gather job.
+ */
+export interface RetentionPolicy {
+  /**
+   * Number of most recent jobs (without parent) to keep, older finished jobs
+   * are removed unless kept by `keepFailedDays`. Jobs are not removed because
+   * of their number if not set.
+   *
+   * e.g. `1000`
+   */
+  keepLast?: number;
+  /**
+   * Days to keep failed jobs for (counted from when they finished), even if
+   * they are older than the `keepLast` most recent jobs. Failed jobs which
+   * finished longer ago are removed (also if `keepLast` is not set). Failed
+   * jobs are not removed because of their age if not set.
+   *
+   * e.g. `30`
+   */
+  keepFailedDays?: number;
+  /**
+   * Days after which the log of a finished job is compressed (to
+   * `log.txt.gz`, still served as `log.txt`). Logs are not compressed if not
+   * set.
+   *
+   * e.g. `7`
+   */
+  compressLogsAfterDays?: number;
+  /**
+   * Time in milliseconds between prunings by the server. Defaults to
+   * `3_600_000` (1h).
+   */
+  interval?: number;
+}
+
+/**
+ * Where and how commit statuses are reported, see `Config.commitStatus`
+ */
+export interface CommitStatusOptions {
+  /**
+   * Base URL of the forge API
+   *
+   * e.g. `"https://api.github.com"` or `"https://codeberg.org/api/v1"` (Forgejo, Gitea)
+   */
+  apiUrl: string;
+  /**
+   * Public URL of this GHAct server, for the links to the pages of the jobs
+   *
+   * e.g. `"https://ghact.example.org"`
+   */
+  serverUrl: string;
+  /**
+   * Distinguishes the status from those of other services. Defaults to
+   * `"ghact"`, pull request previews use `${context}/preview`.
+   */
+  context?: string;
+}
+
+/**
+ * Outcome of processing a single file, as reported by the jobHandler
+ */
+export interface FileResult {
+  status: "ok" | "failed" | "skipped";
+  /** Why the file failed or was skipped */
+  reason?: string;
+}
+
+/**
+ * Passed to the jobHandler to report the outcome of processing a file. The job
+ * fails if any file is reported as `"failed"`, the failed files can then be
+ * retried on their own. Reporting a file again replaces its earlier result.
+ */
+export type ReportFileFn = (
+  file: string,
+  status: FileResult["status"],
+  reason?: string,
+) => void;
+
 /**
  * added, removed and modified contiain the respective changed files as a list of paths (strings)
  */
@@ -64,6 +387,22 @@ export interface ChangeSummary {
   removed: string[];
   /** files modified in the requested span of commits */
   modified: string[];
+  /**
+   * files whose type changed (e.g. a file replaced by a symlink), they are
+   * also listed in `modified`
+   */
+  typeChanged?: string[];
+  /**
+   * files moved from one path to another (with or without modifications),
+   * only detected if `Config.detectRenames` is set. They are not listed in
+   * `added` or `removed`.
+   */
+  renamed?: { from: string; to: string }[];
+  /**
+   * files copied from another path (with or without modifications), only
+   * detected if `Config.detectRenames` is set. They are not listed in `added`.
+   */
+  copied?: { from: string; to: string }[];
 }
 
 /**
@@ -89,28 +428,56 @@ export interface BasicJob {
     name: string;
     email: string;
   };
+  /**
+   * Name of the source repository the job belongs to (see
+   * `Config.sourceRepositories`), the only configured one if not set
+   */
+  repository?: string;
+  /**
+   * Branch of the source repository the job belongs to, its default `branch`
+   * if not set
+   */
+  branch?: string;
 }
 
 /**
  * A job which was triggered by a webhook.
  *
  * Already contains ChangeSummary as this information is provided by the webhook.
+ * The worker recomputes it with git if it is `incomplete`, if `from` is all
+ * zeros (a new branch) or if `from` is not an ancestor of `till` (a
+ * force-push).
  */
 export interface WebhookJob extends BasicJob {
   /**
    * Relevant changes as provided by the webhook payload
    */
   files: ChangeSummary;
+  /**
+   * Set if the webhook payload did not list all changed files (e.g. because
+   * the list of commits was truncated)
+   */
+  incomplete?: boolean;
 }
 
 /**
- * A job which was triggered by a request to /full_update
+ * A job which was triggered by a request to /full_update, or which retries the
+ * failed files of another job (see `retryOf`)
  */
 export interface FullUpdateJob extends BasicJob {
   /**
    * Slice of files that were present when the full_update was triggered
+   * (`modified`) or that were processed before but no longer exist in the
+   * source repository (`removed`, based on `${workDir}/manifest.txt`).
+   * `removed` is missing in jobs queued by versions that did not detect
+   * removed files yet.
    */
-  files: { modified: string[] };
+  files: { modified: string[]; removed?: string[] };
+  /**
+   * Id of the job whose failed files this job retries (requested via
+   * `POST /jobs/{id}/retry-failed`)
+   */
+  retryOf?: string;
 }
 
 /**
@@ -121,5 +488,67 @@ export interface FullUpdateGatherJob extends BasicJob {
   type: "full_update_gather";
 }
 
+/**
+ * A job which was triggered by pushing a tag or publishing a release (only for
+ * tags matching `SourceRepository.tags`), e.g. to publish a versioned snapshot.
+ *
+ * The tag is fetched into the checkout of the default branch before the job is
+ * executed.
+ */
+export interface TagJob extends BasicJob {
+  /** Type of the Job */
+  type: "tag";
+  /**
+   * Name of the tag
+   *
+   * e.g. `"v1.0.0"`
+   */
+  tag: string;
+  /** Only set if the job was triggered by publishing a release */
+  release?: {
+    /** Title of the release, the tag if it has none */
+    name: string;
+    prerelease: boolean;
+    /** Web page of the release */
+    url?: string;
+  };
+}
+
+/**
+ * A job which was triggered by opening, reopening or updating a pull request
+ * (only if `Config.pullRequestPreviews` is set), to preview its results.
+ *
+ * It is executed in an isolated checkout of the head of the pull request in
+ * `pull_requests/${number}` (next to the checkout of its base branch), whose
+ * GitRepository is `readOnly`: the `jobHandler` must not commit or push, its
+ * results are only shown in the log of the job. `from` is the head of the base
+ * branch and `till` the head of the pull request.
+ */
+export interface PullRequestJob extends BasicJob {
+  /** Type of the Job */
+  type: "pull_request";
+  /** Always set, tells the `jobHandler` not to publish anything */
+  preview: true;
+  pullRequest: {
+    /** e.g. `42` */
+    number: number;
+    title: string;
+    /** Web page of the pull request */
+    url?: string;
+    /** e.g. `"opened"` or `"synchronize"` */
+    action: string;
+  };
+  /**
+   * Changes of the pull request (from the merge base with `from` till `till`),
+   * set by the worker when the job is executed
+   */
+  files?: ChangeSummary;
+}
+
 /** Describes a Job */
-export type Job = WebhookJob | FullUpdateJob | BasicJob;
+export type Job =
+  | WebhookJob
+  | FullUpdateJob
+  | TagJob
+  | PullRequestJob
+  | BasicJob;
@@ -0,0 +1,83 @@
+import { type CommitStatusOptions } from "../mod.ts";
+import { type LogFn } from "./log.ts";
+
+/** The states of commit statuses supported by GitHub, Gitea and Forgejo */
+export type CommitState = "pending" | "success" | "failure" | "error";
+
+export type CommitStatus = {
+  state: CommitState;
+  /** shortened to the 140 characters GitHub accepts */
+  description: string;
+  /** linked from the status, e.g. the log of the job */
+  targetUrl?: string;
+  /** whether the status is reported for a pull request preview */
+  preview?: boolean;
+};
+
+/** Full commit hashes (SHA-1 or SHA-256), e.g. not `HEAD` */
+const COMMIT_HASH = /^[0-9a-f]{40}([0-9a-f]{24})?$/;
+
+/**
+ * Posts commit statuses to the forge API
+ * (`POST ${apiUrl}/repos/{owner}/{repo}/statuses/{sha}`), which GitHub, Gitea
+ * and Forgejo show next to the commit and in pull requests.
+ *
+ * Reporting is best effort: failures are logged, they never fail the job.
+ */
+export class CommitStatusReporter {
+  /**
+   * @param token used if none is given to `report`, e.g. `GHTOKEN`
+   */
+  constructor(
+    public readonly options: CommitStatusOptions,
+    private readonly token?: string,
+  ) {}
+
+  /**
+   * Sets the status of the commit, ignores commits which are not given as
+   * full hash (e.g. /update jobs till `HEAD`).
+   *
+   * @param repository name of the repository, e.g. `"factsmission/ghact"`
+   */
+  async report(
+    repository: string,
+    sha: string | undefined,
+    { state, description, targetUrl, preview }: CommitStatus,
+    log: LogFn,
+    token = this.token,
+  ) {
+    if (!sha || !COMMIT_HASH.test(sha)) return;
+    const url = `${
+      this.options.apiUrl.replace(/\/$/, "")
+    }/repos/${repository}/statuses/${sha}`;
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Accept": "application/json",
+          "Content-Type": "application/json",
+          ...(token ? { "Authorization": `token ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          state,
+          target_url: targetUrl,
+          description: description.length > 140
+            ? description.slice(0, 139) + "…"
+            : description,
+          context: (this.options.context ?? "ghact") +
+            (preview ? "/preview" : ""),
+        }),
+        signal: AbortSignal.timeout(10_000),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      log(
+        `== Reporting ${state} status of ${sha} failed: ${error} ==`,
+        "warn",
+      );
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import {
+  existsSync,
+  path,
   serveDir,
   serveFile,
   Server,
@@ -9,32 +11,87 @@ import {
   type BasicJob,
   type Config,
   type FullUpdateGatherJob,
+  type FullUpdateJob,
+  type Job,
+  type JobType,
+  type PullRequestJob,
+  type RetentionPolicy,
+  type SourceRepository,
   type WebhookJob,
 } from "../mod.ts";
-import { createBadge } from "./log.ts";
-import { JobsDataBase } from "./JobsDataBase.ts";
+import {
+  JobsDataBase,
+  type JobState,
+  type PruneResult,
+} from "./JobsDataBase.ts";
+import { openJobStore } from "./jobStores.ts";
+import {
+  defaultWebhookAdapters,
+  type PushEvent,
+  selectWebhookAdapter,
+  type WebhookAdapter,
+} from "./webhookAdapters.ts";
 import { indexPage } from "./indexPage.ts";
-import { verifyBasicAuth, verifySignature } from "./helpers.ts";
+import { jobPage } from "./jobPage.ts";
+import { registerSecret } from "./secrets.ts";
+import { followLog } from "./log.ts";
+import {
+  createBranchFilter,
+  createPathFilter,
+  createTagFilter,
+  filterChanges,
+  hasChanges,
+  hasPathFilter,
+  jobType,
+  mergeChanges,
+  payloadHash,
+  repositoryDir,
+  repositorySlug,
+  sourceRepositories,
+  updateBadges,
+  verifyBasicAuth,
+  verifySignature,
+} from "./helpers.ts";
+
+// Incomplete, only what we need
+type releasePayload = {
+  action: string;
+  repository: {
+    full_name: string;
+  };
+  release: {
+    tag_name: string;
+    name: string | null;
+    prerelease: boolean;
+    html_url?: string;
+  };
+  sender?: {
+    login: string;
+  };
+};
 
 // Incomplete, only what we need
-type webhookPayload = {
+type pullRequestPayload = {
+  /** e.g. `opened`, `synchronize` (GitHub) or `synchronized` (Gitea, Forgejo) */
+  action: string;
+  number: number;
   repository: {
     full_name: string;
   };
-  before: string;
-  after: string;
-  pusher: {
-    name?: string;
-    username?: string;
-    email: string;
+  pull_request: {
+    title: string;
+    html_url?: string;
+    head: { sha: string };
+    base: { ref: string; sha: string };
+  };
+  sender?: {
+    login: string;
   };
-  commits: {
-    added: string[];
-    removed: string[];
-    modified: string[];
-  }[];
 };
 
+/** Pull request actions which change what a preview would produce */
+const PREVIEW_ACTIONS = ["opened", "reopened", "synchronize", "synchronized"];
+
 const WEBHOOK_SECRET: string | undefined = Deno.env.get("WEBHOOK_SECRET");
 const ADMIN_PASSWORD: string | undefined = Deno.env.get("ADMIN_PASSWORD");
 
@@ -48,10 +105,73 @@ const RESERVED_PATHS = [
   "/status/",
   "/update",
   "/full_update",
+  "/prune",
   "/jobs.json",
   "/actions",
 ];
 
+/**
+ * Paths starting with these prefixes are reserved for framework endpoints
+ * @internal
+ */
+const RESERVED_PREFIXES = ["/jobs/"];
+
+/** @internal */
+const JOB_STATES: JobState[] = [
+  "queued",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+  "skipped",
+  "superseded",
+];
+
+/** @internal */
+const JOB_TYPES: JobType[] = [
+  "webhook",
+  "update",
+  "full_update",
+  "full_update_gather",
+  "tag",
+  "pull_request",
+];
+
+/**
+ * Matches `/jobs/{id}/{action}`, the id is url-encoded
+ * @internal
+ */
+const JOB_ACTION_PATH = /^\/jobs\/([^/]+)\/(cancel|retry|retry-failed)$/;
+
+/**
+ * Matches `/jobs/{id}`, the id is url-encoded
+ * @internal
+ */
+const JOB_PATH = /^\/jobs\/([^/]+)$/;
+
+/**
+ * Matches `/jobs/{id}/log/stream`, the id is url-encoded
+ * @internal
+ */
+const JOB_LOG_STREAM_PATH = /^\/jobs\/([^/]+)\/log\/stream$/;
+
+/**
+ * Returns a 401 response if ADMIN_PASSWORD is set and the request does not
+ * authenticate as admin, undefined otherwise.
+ * @internal
+ */
+function checkAdminAuth(request: Request): Response | undefined {
+  if (ADMIN_PASSWORD && !verifyBasicAuth(request, ADMIN_PASSWORD)) {
+    return new Response("Unauthorized", {
+      status: STATUS_CODE.Unauthorized,
+      statusText: STATUS_TEXT[STATUS_CODE.Unauthorized],
+      headers: {
+        "WWW-Authenticate": 'Basic realm="GHAct Admin", charset="UTF-8"',
+      },
+    });
+  }
+}
+
 /**
  * Type for custom HTTP handler functions
  */
@@ -67,9 +187,15 @@ interface HandlerRegistration {
   handler: HttpHandler;
 }
 
+/** Number of delivery IDs remembered to detect replayed webhooks */
+const MAX_DELIVERIES = 10_000;
+
 /**
- * uses the WEBHOOK_SECRET environment variable to verify the origin of webhooks.
- * uses the ADMIN_PASSWORD environment variable to authenticate requests to /update and /full_update endpoints (username: admin).
+ * uses the WEBHOOK_SECRET environment variable to verify the origin of webhooks
+ * (see `verifySignature`), signed webhooks must have a delivery ID. Webhooks
+ * whose delivery ID was already received or whose body is the same as that of
+ * a webhook which queued a job (see `JobStatus.payloadHash`) are rejected.
+ * uses the ADMIN_PASSWORD environment variable to authenticate requests to /update, /full_update, /jobs/{id}/cancel, /jobs/{id}/retry and /jobs/{id}/retry-failed endpoints (username: admin).
  *
  * example usage:
  * ```ts
@@ -78,6 +204,10 @@ interface HandlerRegistration {
  * // worker must be in separate file, use GHActWorker there
  * const worker = new Worker(import.meta.resolve("./action_worker.ts"), { type: "module" });
  * const server = new GHActServer(worker, config);
+ * // or, to execute jobs in parallel, pass a pool of workers:
+ * // new GHActServer(Array.from({ length: 4 }, () => new Worker(...)), config);
+ * // or functions creating them, to replace workers whose jobHandler hangs:
+ * // new GHActServer(() => new Worker(...), config);
  * // Optionally register custom handlers before serving
  * server.addHandler("/webhook", "POST", async (req) => {
  *   return new Response("OK");
@@ -91,48 +221,108 @@ export class GHActServer {
   /** @internal */
   private readonly db: JobsDataBase;
   /** @internal */
+  private readonly workers: Worker[];
+  /**
+   * The functions creating the workers, undefined for those passed as Worker
+   * @internal
+   */
+  private readonly createWorkers: ((() => Worker) | undefined)[];
+  /** @internal */
   private readonly customHandlers: Map<string, HandlerRegistration> = new Map();
   /** @internal */
   private isServing = false;
+  /** @internal */
+  private coalescingTimer?: ReturnType<typeof setTimeout>;
+  /** @internal */
+  private pruningTimer?: ReturnType<typeof setInterval>;
+  /**
+   * The pruning in progress, if any, see `pruneJobs`
+   * @internal
+   */
+  private pruning?: Promise<PruneResult>;
+  /** @internal */
+  private readonly pathFilter: (file: string) => boolean;
+  /** @internal */
+  private readonly repositories: SourceRepository[];
+  /**
+   * IDs of the latest webhook deliveries (at most `MAX_DELIVERIES`, oldest
+   * first), to reject replayed deliveries
+   * @internal
+   */
+  private readonly deliveries = new Set<string>();
+  /** @internal */
+  private readonly webhookAdapters: WebhookAdapter[] = [
+    ...defaultWebhookAdapters,
+  ];
 
   /**
    * Creates new GHActServer. Use the `.serve()` method to start listening.
    *
    * @param worker Worker (e.g. `new Worker(import.meta.resolve("./action_worker.ts"), { type: "module" })`). Worker should be using GHActWorker to handle events properly.
+   * Pass several workers to execute jobs in parallel: they lease jobs from the queue, with jobs touching the same files executed in order.
+   * Pass functions creating the workers instead, so that a worker whose jobHandler does not return after the job timed out or was cancelled is terminated and replaced by a new one.
    * @param config Configuration for GHAct
    */
   constructor(
-    private readonly worker: Worker,
+    worker: Worker | (() => Worker) | (Worker | (() => Worker))[],
     private readonly config: Config,
   ) {
-    this.db = new JobsDataBase(`${this.config.workDir}/jobs`);
-    const latest =
-      this.db.allJobs().find((j) =>
-        j.status === "completed" || j.status === "failed"
-      )
-        ?.status || "Unknown";
-    if (latest === "failed") {
-      createBadge("Failed", this.config.workDir, this.config.title);
-    } else if (latest === "completed") {
-      createBadge("OK", this.config.workDir, this.config.title);
-    } else createBadge("Unknown", this.config.workDir, this.config.title);
-
-    if (
-      !this.config.sourceRepositoryUri.includes(this.config.sourceRepository)
-    ) {
+    const workers = Array.isArray(worker) ? worker : [worker];
+    this.createWorkers = workers.map((w) =>
+      typeof w === "function" ? w : undefined
+    );
+    this.workers = workers.map((w) => typeof w === "function" ? w() : w);
+    this.repositories = sourceRepositories(this.config);
+    registerSecret(...this.repositories.map((r) => r.token));
+    this.pathFilter = createPathFilter(this.config);
+    const jobsDir = `${this.config.workDir}/jobs`;
+    this.db = new JobsDataBase(
+      jobsDir,
+      openJobStore(this.config.jobStore, jobsDir),
+    );
+    // must happen before the worker is initialized and picks up jobs
+    const resumed = this.db.resumeInterruptedJobs();
+    if (resumed.length > 0) {
       console.warn(
-        `Warning: config.sourceRepositoryUri (${this.config.sourceRepositoryUri}) might not point to the same repository as config.sourceRepository (${this.config.sourceRepository})`,
+        `Re-queued full update jobs interrupted by the last shutdown: ${resumed}`,
       );
     }
+    const interrupted = this.db.failInterruptedJobs();
+    if (interrupted.length > 0) {
+      console.warn(
+        `Marked jobs interrupted by the last shutdown as failed: ${interrupted}`,
+      );
+    }
+    updateBadges(this.config, this.db);
 
-    if (!this.worker) throw new Error("Missing worker");
-
-    this.worker.postMessage({ type: "init", config: this.config });
-    this.worker.onmessage = (e: MessageEvent) => {
-      if (e.data.type === "status") {
-        this.db.setStatus(e.data.jobId, e.data.status, e.data.message);
+    for (const repository of this.repositories) {
+      if (!repository.uri.includes(repository.name)) {
+        console.warn(
+          `Warning: the uri ${repository.uri} might not point to the repository ${repository.name}`,
+        );
       }
-    };
+    }
+
+    if (this.workers.length === 0 || this.workers.some((w) => !w)) {
+      throw new Error("Missing worker");
+    }
+
+    this.workers.forEach((_, workerId) => this.startWorker(workerId));
+
+    // webhook jobs queued before a restart might still wait to be coalesced
+    if (this.config.webhookDebounce) this.scheduleCoalescing();
+
+    const retention = this.config.retention;
+    if (retention) {
+      const prune = () =>
+        this.pruneJobs(retention).catch((error) =>
+          console.error(`Pruning jobs failed: ${error}`)
+        );
+      prune();
+      this.pruningTimer = setInterval(prune, retention.interval ?? 3_600_000);
+      // don't keep the process alive just for this
+      Deno.unrefTimer(this.pruningTimer);
+    }
 
     this.server = new Server({ handler: this.webhookHandler });
   }
@@ -143,8 +333,8 @@ export class GHActServer {
    * The handler is called exactly as provided - no additional middleware is applied by the framework.
    * Users should compose their own middleware chain before passing the handler.
    *
-   * Reserved paths (/, /status, /update, /full_update, /jobs.json, /actions) cannot be overridden.
-   * Paths that start with the workDir are also reserved for internal use.
+   * Reserved paths (/, /status, /update, /full_update, /prune, /jobs.json, /actions) cannot be overridden.
+   * Paths that start with the workDir or with /jobs/ are also reserved for internal use.
    *
    * This method must be called before `serve()`. Attempting to register handlers after the server
    * has started will throw an error.
@@ -199,6 +389,13 @@ export class GHActServer {
       );
     }
 
+    const reservedPrefix = RESERVED_PREFIXES.find((p) => path.startsWith(p));
+    if (reservedPrefix) {
+      throw new Error(
+        `Paths starting with '${reservedPrefix}' are reserved for job management`,
+      );
+    }
+
     // Check if path starts with workDir (reserved for internal file serving)
     if (path.startsWith(this.config.workDir)) {
       throw new Error(
@@ -221,6 +418,26 @@ export class GHActServer {
     });
   }
 
+  /**
+   * Registers an adapter for the webhooks of another forge. Adapters are tried
+   * before the built-in ones (GitLab, Bitbucket Server and GitHub, Gitea and
+   * Forgejo), the first one recognising the request (see
+   * `WebhookAdapter.event`) is used.
+   *
+   * @example
+   * ```ts
+   * server.addWebhookAdapter({
+   *   name: "MyForge",
+   *   event: (headers) => headers.get("X-MyForge-Event") ?? undefined,
+   *   repository: (payload) => (payload as MyPayload).repo,
+   *   push: (payload) => [toPushEvent(payload as MyPayload)],
+   * });
+   * ```
+   */
+  addWebhookAdapter(adapter: WebhookAdapter): void {
+    this.webhookAdapters.unshift(adapter);
+  }
+
   /**
    * Start listenig for requests (webhooks and for the logs interface)
    *
@@ -234,6 +451,677 @@ export class GHActServer {
     return this.server.serve(listener);
   }
 
+  /**
+   * @internal
+   *
+   * (Re-)starts the debounce timer: once no webhook arrived for
+   * `config.webhookDebounce` ms, the queued webhook jobs are merged into one
+   * and the workers are notified.
+   */
+  private scheduleCoalescing() {
+    clearTimeout(this.coalescingTimer);
+    this.coalescingTimer = setTimeout(() => {
+      this.coalescingTimer = undefined;
+      // jobs of different repositories or branches must not be merged
+      const groups = new Map<string, [string?, string?]>();
+      for (const { job } of this.db.queuedJobs()) {
+        groups.set(`${job.repository}:${job.branch}`, [
+          job.repository,
+          job.branch,
+        ]);
+      }
+      for (const [repository, branch] of groups.values()) {
+        const merged = this.db.coalesceWebhookJobs(repository, branch);
+        if (merged) {
+          console.log(
+            `· Merged ${merged.supersedes.length} webhook jobs into ${merged.job.id}`,
+          );
+        }
+      }
+      this.notifyWorkers({ type: "trigger" });
+    }, this.config.webhookDebounce);
+    // don't keep the process alive just for this
+    Deno.unrefTimer(this.coalescingTimer);
+  }
+
+  /**
+   * @internal
+   *
+   * Removes old jobs and compresses old logs according to the policy (see
+   * `JobsDataBase.prune`). Concurrent calls share the pruning in progress.
+   */
+  private pruneJobs(policy: RetentionPolicy): Promise<PruneResult> {
+    this.pruning ??= this.db.prune(policy).then((result) => {
+      if (result.removed.length > 0 || result.compressed.length > 0) {
+        console.log(
+          `· Pruned ${result.removed.length} jobs, compressed ${result.compressed.length} logs`,
+        );
+      }
+      return result;
+    }).finally(() => {
+      this.pruning = undefined;
+    });
+    return this.pruning;
+  }
+
+  /**
+   * @internal
+   *
+   * Responds to `/jobs.json` with the page of jobs selected by the query
+   * parameters, the number of matching jobs in `X-Total-Count` and the link to
+   * the next page (if any) in `Link`.
+   */
+  private jobsJson(requestUrl: URL): Response {
+    const params = requestUrl.searchParams;
+    const badRequest = (message: string) =>
+      new Response(message, {
+        status: STATUS_CODE.BadRequest,
+        statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
+      });
+    // repeated or comma-separated
+    const list = (name: string) => {
+      const values = params.getAll(name).flatMap((v) => v.split(","))
+        .filter((v) => v !== "");
+      return values.length ? values : undefined;
+    };
+    const status = list("status");
+    const unknownStatus = status?.find((s) =>
+      !JOB_STATES.includes(s as JobState)
+    );
+    if (unknownStatus) return badRequest(`Unknown status ${unknownStatus}`);
+    const type = list("type");
+    const unknownType = type?.find((t) => !JOB_TYPES.includes(t as JobType));
+    if (unknownType) return badRequest(`Unknown job type ${unknownType}`);
+    const timestamp = (name: string) => {
+      const value = params.get(name);
+      if (!value) return undefined;
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    };
+    const since = timestamp("since");
+    const until = timestamp("until");
+    if (since === null || until === null) {
+      return badRequest("Query parameters 'since' and 'until' must be dates");
+    }
+    // `from` and `till` are kept for compatibility, a negative `till` lists all
+    const from = Number.parseInt(params.get("from") || "0");
+    const till = Number.parseInt(params.get("till") || "200");
+    const limit = params.has("limit")
+      ? Number.parseInt(params.get("limit")!)
+      : till < 0
+      ? undefined
+      : till - from;
+    if (Number.isNaN(from) || (limit !== undefined && !(limit >= 0))) {
+      return badRequest("Invalid pagination");
+    }
+    const result = this.db.searchJobs({
+      status: status as JobState[] | undefined,
+      type: type as JobType[] | undefined,
+      repository: params.get("repository") ?? undefined,
+      since,
+      until,
+      file: params.get("file") || undefined,
+      search: params.get("q") || undefined,
+      after: params.get("cursor") || undefined,
+      offset: from,
+      limit,
+    });
+    const response = new Response(
+      JSON.stringify(result.jobs, undefined, 2),
+    );
+    response.headers.set("Content-Type", "application/json");
+    response.headers.set("X-Total-Count", `${result.total}`);
+    if (result.next !== undefined) {
+      const next = new URL(requestUrl);
+      next.searchParams.delete("from");
+      next.searchParams.delete("till");
+      next.searchParams.set("limit", `${limit}`);
+      next.searchParams.set("cursor", result.next);
+      response.headers.set(
+        "Link",
+        `<${next.pathname}${next.search}>; rel="next"`,
+      );
+    }
+    return response;
+  }
+
+  /**
+   * @internal
+   *
+   * Returns a new job id for the branch of the repository: a unique timestamp
+   * (see `JobsDataBase.newJobId`), followed by the repository (if several are
+   * configured), the branch (unless it is the default branch) and the suffix.
+   */
+  private newJobId(
+    repository: SourceRepository,
+    branch: string,
+    suffix = "",
+  ) {
+    const repositoryPart = this.config.sourceRepositories
+      ? ` ${repositorySlug(repository.name)}`
+      : "";
+    const branchPart = branch === repository.branch
+      ? ""
+      : ` ${repositorySlug(branch)}`;
+    return this.db.newJobId(`${repositoryPart}${branchPart}${suffix}`);
+  }
+
+  /**
+   * @internal
+   *
+   * The branch selected by the `branch` query parameter, the default branch of
+   * the repository if it is not given. Responds with 400 if pushes to the
+   * branch are not processed (see `SourceRepository.branches`).
+   */
+  private selectBranch(
+    requestUrl: URL,
+    repository: SourceRepository,
+  ): string | Response {
+    const branch = requestUrl.searchParams.get("branch") ?? repository.branch;
+    if (!createBranchFilter(repository)(branch)) {
+      return new Response(
+        `Branch ${branch} is not configured for ${repository.name}`,
+        {
+          status: STATUS_CODE.BadRequest,
+          statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
+        },
+      );
+    }
+    return branch;
+  }
+
+  /**
+   * @internal
+   *
+   * The repositories selected by the `repository` query parameter, all
+   * repositories if it is not given. Responds with 400 if the repository is
+   * unknown or if it is `required` but not given while several repositories
+   * are configured.
+   */
+  private selectRepositories(
+    requestUrl: URL,
+    required = false,
+  ): SourceRepository[] | Response {
+    const name = requestUrl.searchParams.get("repository");
+    if (name === null) {
+      if (required && this.repositories.length > 1) {
+        return new Response("Query parameter 'repository' required", {
+          status: STATUS_CODE.BadRequest,
+          statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
+        });
+      }
+      return this.repositories;
+    }
+    const repository = this.repositories.find((r) => r.name === name);
+    if (!repository) {
+      return new Response(`Unknown repository ${name}`, {
+        status: STATUS_CODE.BadRequest,
+        statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
+      });
+    }
+    return [repository];
+  }
+
+  /** @internal */
+  private startWorker(workerId: number) {
+    const worker = this.workers[workerId];
+    worker.postMessage({
+      type: "init",
+      config: this.config,
+      workerId: `${workerId}`,
+    });
+    worker.onmessage = (e: MessageEvent) => {
+      if (e.data.type === "status") {
+        this.db.setStatus(e.data.jobId, e.data.status, e.data.message);
+      } else if (e.data.type === "finished" && this.workers.length > 1) {
+        // jobs blocked by the finished job may now be leased by idle workers
+        this.notifyWorkers({ type: "trigger" });
+      } else if (e.data.type === "unresponsive") {
+        this.replaceWorker(workerId, e.data.jobId);
+      }
+    };
+  }
+
+  /**
+   * @internal
+   *
+   * Terminates the worker, whose jobHandler did not return after the job was
+   * aborted, and starts a new one in its place. Terminating it kills the
+   * commands it spawned and releases the checkouts it used.
+   */
+  private replaceWorker(workerId: number, jobId: string) {
+    const create = this.createWorkers[workerId];
+    if (!create) {
+      console.warn(
+        `Worker ${workerId} waits for the jobHandler of job ${jobId} to return, it can only be replaced if created by a function passed to GHActServer`,
+      );
+      return;
+    }
+    console.warn(
+      `· Replacing worker ${workerId}, the jobHandler of job ${jobId} did not return`,
+    );
+    this.workers[workerId].terminate();
+    this.workers[workerId] = create();
+    this.startWorker(workerId);
+    // the job no longer blocks jobs for other workers
+    if (this.workers.length > 1) this.notifyWorkers({ type: "trigger" });
+  }
+
+  /**
+   * @internal
+   *
+   * Sends the message to all workers, any message other than `init` or
+   * `cancel` makes idle workers check the queue for jobs.
+   */
+  private notifyWorkers(message: unknown) {
+    for (const worker of this.workers) worker.postMessage(message);
+  }
+
+  /**
+   * @internal
+   *
+   * Marks the job as cancelled if it is queued or running and asks the worker to
+   * abort it in case it is currently executing. Cancelling a job also cancels
+   * its queued or running children (e.g. the chunks of a full update).
+   */
+  private cancelJob(id: string): Response {
+    const jobStatus = this.db.getJob(id);
+    if (!jobStatus) {
+      return new Response(`No job with id ${id}`, {
+        status: STATUS_CODE.NotFound,
+        statusText: STATUS_TEXT[STATUS_CODE.NotFound],
+      });
+    }
+    const toCancel =
+      jobStatus.status === "queued" || jobStatus.status === "running"
+        ? [jobStatus]
+        : [];
+    toCancel.push(
+      ...this.db.childJobs(id).filter((js) =>
+        js.status === "queued" || js.status === "running"
+      ),
+    );
+    if (toCancel.length === 0) {
+      return new Response(`Job ${id} is already ${jobStatus.status}`, {
+        status: STATUS_CODE.Conflict,
+        statusText: STATUS_TEXT[STATUS_CODE.Conflict],
+      });
+    }
+    for (const { job } of toCancel) {
+      this.db.setStatus(job, "cancelled", "Cancelled via API");
+      // workers ignore this unless the job is the one they are executing
+      this.notifyWorkers({ type: "cancel", jobId: job.id });
+    }
+    console.log(`· Cancelled jobs ${toCancel.map((js) => js.job.id)}`);
+    const response = new Response(
+      JSON.stringify(
+        { cancelled: toCancel.map((js) => js.job.id) },
+        undefined,
+        2,
+      ),
+    );
+    response.headers.set("Content-Type", "application/json");
+    return response;
+  }
+
+  /**
+   * @internal
+   *
+   * Streams the log of the job as Server-Sent Events (see `followLog`),
+   * starting at the byte offset in the `Last-Event-ID` header.
+   */
+  private streamJobLog(request: Request, id: string): Response {
+    const jobStatus = this.db.getJob(id);
+    if (!jobStatus) {
+      return new Response(`No job with id ${id}`, {
+        status: STATUS_CODE.NotFound,
+        statusText: STATUS_TEXT[STATUS_CODE.NotFound],
+      });
+    }
+    const lastEventId = request.headers.get("Last-Event-ID") ?? "0";
+    if (!/^\d+$/.test(lastEventId)) {
+      return new Response("Last-Event-ID must be a byte offset", {
+        status: STATUS_CODE.BadRequest,
+        statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
+      });
+    }
+    const body = followLog(
+      path.join(jobStatus.dir, "log.txt"),
+      parseInt(lastEventId, 10),
+      () => {
+        const status = this.db.getJob(id)?.status ?? "removed";
+        return status === "queued" || status === "running" ? undefined : status;
+      },
+    );
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+      },
+    });
+  }
+
+  /**
+   * @internal
+   *
+   * Re-queues a failed job as is, i.e. with its original ChangeSummary. The
+   * previous attempts are kept in its status.
+   */
+  private retryJob(id: string): Response {
+    const jobStatus = this.db.getJob(id);
+    if (!jobStatus) {
+      return new Response(`No job with id ${id}`, {
+        status: STATUS_CODE.NotFound,
+        statusText: STATUS_TEXT[STATUS_CODE.NotFound],
+      });
+    }
+    if (jobStatus.status !== "failed") {
+      return new Response(
+        `Job ${id} is ${jobStatus.status}, only failed jobs can be retried`,
+        {
+          status: STATUS_CODE.Conflict,
+          statusText: STATUS_TEXT[STATUS_CODE.Conflict],
+        },
+      );
+    }
+    this.db.setStatus(jobStatus.job, "queued", "Retry requested via API");
+    this.notifyWorkers(jobStatus.job);
+    console.log(`· Re-queued job ${id}`);
+    return new Response(undefined, {
+      status: STATUS_CODE.Accepted,
+      statusText: STATUS_TEXT[STATUS_CODE.Accepted],
+    });
+  }
+
+  /**
+   * @internal
+   *
+   * Queues a job for only the files of a failed job which the jobHandler
+   * reported as failed (see `ReportFileFn`), listed as `modified` or, if the
+   * job removed them, as `removed`. Responds with the id of the new job.
+   */
+  private retryFailedFiles(id: string): Response {
+    const jobStatus = this.db.getJob(id);
+    if (!jobStatus) {
+      return new Response(`No job with id ${id}`, {
+        status: STATUS_CODE.NotFound,
+        statusText: STATUS_TEXT[STATUS_CODE.NotFound],
+      });
+    }
+    const conflict = (message: string) =>
+      new Response(message, {
+        status: STATUS_CODE.Conflict,
+        statusText: STATUS_TEXT[STATUS_CODE.Conflict],
+      });
+    const original = jobStatus.job;
+    if (jobStatus.status !== "failed") {
+      return conflict(
+        `Job ${id} is ${jobStatus.status}, only failed jobs can be retried`,
+      );
+    }
+    // the files of other jobs are not processed on the branch
+    if (!["webhook", "update", "full_update"].includes(jobType(original))) {
+      return conflict(
+        `The failed files of ${jobType(original)} jobs cannot be retried`,
+      );
+    }
+    const failed = Object.entries(this.db.fileResults(id))
+      .filter(([, result]) => result.status === "failed")
+      .map(([file]) => file);
+    if (failed.length === 0) {
+      return conflict(`Job ${id} has no failed files`);
+    }
+    const removed = new Set(
+      "files" in original && original.files
+        ? [
+          ...original.files.removed ?? [],
+          ...("renamed" in original.files && original.files.renamed
+            ? original.files.renamed.map(({ from }) => from)
+            : []),
+        ]
+        : [],
+    );
+    const repository =
+      this.repositories.find((r) => r.name === original.repository) ??
+        this.repositories[0];
+    const branch = original.branch ?? repository.branch;
+    const job: FullUpdateJob = {
+      id: this.newJobId(repository, branch, " retry of failed files"),
+      author: original.author,
+      repository: original.repository,
+      branch: original.branch,
+      files: {
+        modified: failed.filter((file) => !removed.has(file)),
+        removed: failed.filter((file) => removed.has(file)),
+      },
+      retryOf: id,
+    };
+    this.db.addJob(job);
+    this.notifyWorkers(job);
+    console.log(
+      `· Queued job ${job.id} for ${failed.length} failed files of ${id}`,
+    );
+    const response = new Response(
+      JSON.stringify({ queued: job.id }, undefined, 2),
+      {
+        status: STATUS_CODE.Accepted,
+        statusText: STATUS_TEXT[STATUS_CODE.Accepted],
+      },
+    );
+    response.headers.set("Content-Type", "application/json");
+    return response;
+  }
+
+  /**
+   * @internal
+   *
+   * Queues a WebhookJob for pushes to configured branches and a TagJob for
+   * pushed tags matching `SourceRepository.tags`, ignores everything else
+   * (including deletions of branches and tags).
+   *
+   * The files of pushes whose payload doesn't (reliably) list the changed
+   * files (see `PushEvent.commits`) are recomputed by the worker, such
+   * WebhookJobs are `incomplete` and never skipped here.
+   */
+  private handlePush(
+    json: PushEvent,
+    repository: SourceRepository,
+    payloadHash?: string,
+  ): Response {
+    const ignore = (reason: string) => {
+      console.log(`· Ignoring push: ${reason}`);
+      return new Response(`Ignored: ${reason}`, {
+        status: STATUS_CODE.OK,
+        statusText: STATUS_TEXT[STATUS_CODE.OK],
+      });
+    };
+    if (json.deleted || /^0+$/.test(json.after)) {
+      return ignore(`${json.ref} was deleted`);
+    }
+    if (json.ref?.startsWith("refs/tags/")) {
+      const tag = json.ref.slice("refs/tags/".length);
+      if (!createTagFilter(repository)(tag)) {
+        return ignore(`${json.ref} is not configured`);
+      }
+      return this.queueJob({
+        id: this.newJobId(
+          repository,
+          repository.branch,
+          ` tag ${repositorySlug(tag)}`,
+        ),
+        type: "tag",
+        tag,
+        till: json.after,
+        author: this.pushAuthor(json),
+        repository: repository.name,
+      }, payloadHash);
+    }
+    // payloads without ref are taken to be pushes to the default branch
+    const branch = json.ref === undefined
+      ? repository.branch
+      : json.ref.startsWith("refs/heads/")
+      ? json.ref.slice("refs/heads/".length)
+      : undefined;
+    if (branch === undefined || !createBranchFilter(repository)(branch)) {
+      return ignore(`${json.ref} is not configured`);
+    }
+    const job: WebhookJob = {
+      id: this.newJobId(repository, branch),
+      from: json.before,
+      till: json.after,
+      author: this.pushAuthor(json),
+      repository: repository.name,
+      branch,
+      files: {
+        from: json.before,
+        till: json.after,
+        ...mergeChanges(json.commits ?? []),
+      },
+    };
+    if (
+      !json.commits || json.truncated || json.forced ||
+      /^0+$/.test(json.before)
+    ) {
+      console.log(`· Changed files of ${job.id} will be determined with git`);
+      job.incomplete = true;
+    } else if (hasPathFilter(this.config)) {
+      job.files = filterChanges(job.files, this.pathFilter);
+      if (!hasChanges(job.files)) {
+        this.db.addJob(
+          job,
+          "skipped",
+          "No matching files changed",
+          payloadHash,
+        );
+        console.log(`Job skipped, no matching files: ${job.id}`);
+        return new Response("Skipped: no matching files changed", {
+          status: STATUS_CODE.OK,
+          statusText: STATUS_TEXT[STATUS_CODE.OK],
+        });
+      }
+    }
+    this.db.addJob(job, "queued", undefined, payloadHash);
+    if (this.config.webhookDebounce) this.scheduleCoalescing();
+    else this.notifyWorkers(job);
+    console.log(
+      `Job submitted: ${JSON.stringify(job, undefined, 2)}`,
+    );
+    return new Response(undefined, {
+      status: STATUS_CODE.Accepted,
+      statusText: STATUS_TEXT[STATUS_CODE.Accepted],
+    });
+  }
+
+  /** @internal */
+  private pushAuthor(json: PushEvent): BasicJob["author"] {
+    return {
+      name: json.pusher.name ?? this.config.title,
+      email: json.pusher.email ?? this.config.email,
+    };
+  }
+
+  /**
+   * @internal
+   *
+   * Queues a TagJob for published releases whose tag matches
+   * `SourceRepository.tags`, ignores other release events (e.g. drafts).
+   */
+  private handleRelease(
+    json: releasePayload,
+    repository: SourceRepository,
+    payloadHash?: string,
+  ): Response {
+    const tag = json.release.tag_name;
+    if (json.action !== "published" || !createTagFilter(repository)(tag)) {
+      console.log(`· Ignoring release ${json.action} for ${tag}`);
+      return new Response(`Ignored: release ${json.action} for ${tag}`, {
+        status: STATUS_CODE.OK,
+        statusText: STATUS_TEXT[STATUS_CODE.OK],
+      });
+    }
+    return this.queueJob({
+      id: this.newJobId(
+        repository,
+        repository.branch,
+        ` release ${repositorySlug(tag)}`,
+      ),
+      type: "tag",
+      tag,
+      release: {
+        name: json.release.name || tag,
+        prerelease: json.release.prerelease,
+        url: json.release.html_url,
+      },
+      author: {
+        name: json.sender?.login ?? this.config.title,
+        email: this.config.email,
+      },
+      repository: repository.name,
+    }, payloadHash);
+  }
+
+  /**
+   * @internal
+   *
+   * Queues a PullRequestJob when a pull request to a processed branch (see
+   * `SourceRepository.branches`) is opened, reopened or updated, ignores other
+   * pull request events (e.g. closing or labelling).
+   */
+  private handlePullRequest(
+    json: pullRequestPayload,
+    repository: SourceRepository,
+    payloadHash?: string,
+  ): Response {
+    const { number, pull_request: pullRequest } = json;
+    const branch = pullRequest.base.ref;
+    if (
+      !PREVIEW_ACTIONS.includes(json.action) ||
+      !createBranchFilter(repository)(branch)
+    ) {
+      console.log(`· Ignoring pull request ${number} ${json.action}`);
+      return new Response(
+        `Ignored: pull request ${json.action} to ${branch}`,
+        {
+          status: STATUS_CODE.OK,
+          statusText: STATUS_TEXT[STATUS_CODE.OK],
+        },
+      );
+    }
+    const job: PullRequestJob = {
+      id: this.newJobId(repository, branch, ` pull request ${number}`),
+      type: "pull_request",
+      preview: true,
+      pullRequest: {
+        number,
+        title: pullRequest.title,
+        url: pullRequest.html_url,
+        action: json.action,
+      },
+      from: pullRequest.base.sha,
+      till: pullRequest.head.sha,
+      author: {
+        name: json.sender?.login ?? this.config.title,
+        email: this.config.email,
+      },
+      repository: repository.name,
+      branch,
+    };
+    return this.queueJob(job, payloadHash);
+  }
+
+  /** @internal */
+  private queueJob(job: Job, payloadHash?: string): Response {
+    this.db.addJob(job, "queued", undefined, payloadHash);
+    this.notifyWorkers(job);
+    console.log(
+      `Job submitted: ${JSON.stringify(job, undefined, 2)}`,
+    );
+    return new Response(undefined, {
+      status: STATUS_CODE.Accepted,
+      statusText: STATUS_TEXT[STATUS_CODE.Accepted],
+    });
+  }
+
   /**
    * @internal
    *
@@ -251,17 +1139,23 @@ export class GHActServer {
     }
 
     if (request.method === "POST") {
-      if (pathname === "/update") {
-        // Check authentication
-        if (ADMIN_PASSWORD && !verifyBasicAuth(request, ADMIN_PASSWORD)) {
-          return new Response("Unauthorized", {
-            status: STATUS_CODE.Unauthorized,
-            statusText: STATUS_TEXT[STATUS_CODE.Unauthorized],
-            headers: {
-              "WWW-Authenticate": 'Basic realm="GHAct Admin", charset="UTF-8"',
-            },
-          });
+      const jobAction = pathname.match(JOB_ACTION_PATH);
+      if (jobAction) {
+        const unauthorized = checkAdminAuth(request);
+        if (unauthorized) return unauthorized;
+        const id = decodeURIComponent(jobAction[1]);
+        switch (jobAction[2]) {
+          case "cancel":
+            return this.cancelJob(id);
+          case "retry":
+            return this.retryJob(id);
+          default:
+            return this.retryFailedFiles(id);
         }
+      }
+      if (pathname === "/update") {
+        const unauthorized = checkAdminAuth(request);
+        if (unauthorized) return unauthorized;
 
         const from = requestUrl.searchParams.get("from");
         if (!from) {
@@ -271,18 +1165,24 @@ export class GHActServer {
           });
         }
         const till = requestUrl.searchParams.get("till") || "HEAD";
+        const repositories = this.selectRepositories(requestUrl, true);
+        if (repositories instanceof Response) return repositories;
+        const branch = this.selectBranch(requestUrl, repositories[0]);
+        if (branch instanceof Response) return branch;
         // console.log(await getModifiedAfter(from));
         const job: BasicJob = {
-          id: (new Date()).toISOString(),
+          id: this.newJobId(repositories[0], branch),
           from,
           till,
           author: {
             name: this.config.title,
             email: this.config.email,
           },
+          repository: repositories[0].name,
+          branch,
         };
         this.db.addJob(job);
-        this.worker.postMessage(job);
+        this.notifyWorkers(job);
         console.log(
           `Job submitted: ${JSON.stringify(job, undefined, 2)}`,
         );
@@ -291,50 +1191,114 @@ export class GHActServer {
           statusText: STATUS_TEXT[STATUS_CODE.Accepted],
         });
       }
-      if (pathname === "/full_update") {
-        // Check authentication
-        if (ADMIN_PASSWORD && !verifyBasicAuth(request, ADMIN_PASSWORD)) {
-          return new Response("Unauthorized", {
-            status: STATUS_CODE.Unauthorized,
-            statusText: STATUS_TEXT[STATUS_CODE.Unauthorized],
-            headers: {
-              "WWW-Authenticate": 'Basic realm="GHAct Admin", charset="UTF-8"',
-            },
+      if (pathname === "/prune") {
+        const unauthorized = checkAdminAuth(request);
+        if (unauthorized) return unauthorized;
+        if (!this.config.retention) {
+          return new Response("No retention policy configured", {
+            status: STATUS_CODE.BadRequest,
+            statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
           });
         }
+        const result = await this.pruneJobs(this.config.retention);
+        const response = new Response(JSON.stringify(result, undefined, 2));
+        response.headers.set("Content-Type", "application/json");
+        return response;
+      }
+      if (pathname === "/full_update") {
+        const unauthorized = checkAdminAuth(request);
+        if (unauthorized) return unauthorized;
 
         console.log("· got full_update request");
-        const job: FullUpdateGatherJob = {
-          type: "full_update_gather",
-          id: (new Date()).toISOString() + " full update gathering",
-          author: {
-            name: this.config.title,
-            email: this.config.email,
-          },
-        };
-        this.db.addJob(job);
-        this.worker.postMessage(job);
-        console.log(
-          `Job submitted: ${JSON.stringify(job, undefined, 2)}`,
+        const repositories = this.selectRepositories(requestUrl);
+        if (repositories instanceof Response) return repositories;
+        const branches = repositories.map((r) =>
+          this.selectBranch(requestUrl, r)
         );
+        const invalid = branches.find((b) => b instanceof Response);
+        if (invalid) return invalid;
+        for (const [i, repository] of repositories.entries()) {
+          const branch = branches[i] as string;
+          const job: FullUpdateGatherJob = {
+            type: "full_update_gather",
+            id: this.newJobId(repository, branch, " full update gathering"),
+            author: {
+              name: this.config.title,
+              email: this.config.email,
+            },
+            repository: repository.name,
+            branch,
+          };
+          this.db.addJob(job);
+          this.notifyWorkers(job);
+          console.log(
+            `Job submitted: ${JSON.stringify(job, undefined, 2)}`,
+          );
+        }
         return new Response(undefined, {
           status: STATUS_CODE.Accepted,
           statusText: STATUS_TEXT[STATUS_CODE.Accepted],
         });
       } else {
+        // signatures are computed over the exact bytes sent
+        const body = await request.arrayBuffer();
         if (
-          WEBHOOK_SECRET && !(await verifySignature(request, WEBHOOK_SECRET))
+          WEBHOOK_SECRET &&
+          !(await verifySignature(request.headers, body, WEBHOOK_SECRET))
         ) {
           return new Response("Unauthorized", {
             status: STATUS_CODE.Unauthorized,
             statusText: STATUS_TEXT[STATUS_CODE.Unauthorized],
           });
         }
+        const selected = selectWebhookAdapter(
+          this.webhookAdapters,
+          request.headers,
+        );
+        if (!selected) {
+          return new Response("Unknown webhook format", {
+            status: STATUS_CODE.BadRequest,
+            statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
+          });
+        }
+        const delivery = selected.adapter.delivery?.(request.headers);
+        if (WEBHOOK_SECRET && delivery === undefined) {
+          return new Response("Missing delivery ID", {
+            status: STATUS_CODE.BadRequest,
+            statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
+          });
+        }
+        // the delivery ID is not signed, a replay might come with a new one
+        const hash = await payloadHash(body);
+        if (
+          (delivery !== undefined && this.deliveries.has(delivery)) ||
+          this.db.hasPayloadHash(hash)
+        ) {
+          console.log(`· Rejecting replayed delivery ${delivery ?? hash}`);
+          return new Response(`Duplicate delivery ${delivery ?? hash}`, {
+            status: STATUS_CODE.Conflict,
+            statusText: STATUS_TEXT[STATUS_CODE.Conflict],
+          });
+        }
+        if (delivery !== undefined) {
+          this.deliveries.add(delivery);
+          if (this.deliveries.size > MAX_DELIVERIES) {
+            this.deliveries.delete(this.deliveries.values().next().value!);
+          }
+        }
+        const { adapter, event } = selected;
         try {
-          const json: webhookPayload | undefined = await request.json();
-          const repoName = json?.repository?.full_name;
+          const json: unknown = JSON.parse(new TextDecoder().decode(body));
+          const repoName = adapter.repository(json);
+
+          console.log(`· got ${adapter.name} ${event} webhook from`, repoName);
 
-          console.log("· got webhook from", repoName);
+          if (event === "ping") {
+            return new Response("Pong", {
+              status: STATUS_CODE.OK,
+              statusText: STATUS_TEXT[STATUS_CODE.OK],
+            });
+          }
 
           if (!repoName) {
             return new Response("Invalid Payload", {
@@ -343,74 +1307,97 @@ export class GHActServer {
             });
           }
 
-          if (repoName !== this.config.sourceRepository) {
+          const repository = this.repositories.find((r) => r.name === repoName);
+          if (!repository) {
             return new Response("Wrong Repository", {
               status: STATUS_CODE.BadRequest,
               statusText: STATUS_TEXT[STATUS_CODE.BadRequest],
             });
           }
-          const job: WebhookJob = {
-            id: (new Date()).toISOString(),
-            from: json.before,
-            till: json.after,
-            author: {
-              name: json.pusher.name ?? json.pusher.username ??
-                this.config.title,
-              email: json.pusher.email,
-            },
-            files: {
-              from: json.before,
-              till: json.after,
-              added: json.commits
-                .flatMap((c) => c.added)
-                .map((f) => f.at(0) === "/" ? f.slice(1) : f),
-              removed: json.commits
-                .flatMap((c) => c.removed)
-                .map((f) => f.at(0) === "/" ? f.slice(1) : f),
-              modified: json.commits
-                .flatMap((c) => c.modified)
-                .map((f) => f.at(0) === "/" ? f.slice(1) : f),
-            },
-          };
-          this.db.addJob(job);
-          this.worker.postMessage(job);
-          console.log(
-            `Job submitted: ${JSON.stringify(job, undefined, 2)}`,
-          );
-          return new Response(undefined, {
-            status: STATUS_CODE.Accepted,
-            statusText: STATUS_TEXT[STATUS_CODE.Accepted],
+          if (event === "push") {
+            const responses = adapter.push(json).map((push) =>
+              this.handlePush(push, repository, hash)
+            );
+            return responses.find((r) => r.status === STATUS_CODE.Accepted) ??
+              responses[0] ?? new Response("Ignored: no refs changed", {
+              status: STATUS_CODE.OK,
+              statusText: STATUS_TEXT[STATUS_CODE.OK],
+            });
+          }
+          if (event === "release") {
+            return this.handleRelease(
+              json as releasePayload,
+              repository,
+              hash,
+            );
+          }
+          if (event === "pull_request" && this.config.pullRequestPreviews) {
+            return this.handlePullRequest(
+              json as pullRequestPayload,
+              repository,
+              hash,
+            );
+          }
+          console.log(`· Ignoring ${event} webhook`);
+          return new Response(`Ignored: ${event} events are not handled`, {
+            status: STATUS_CODE.OK,
+            statusText: STATUS_TEXT[STATUS_CODE.OK],
           });
         } catch (error) {
+          // the delivery may be retried
+          if (delivery !== undefined) this.deliveries.delete(delivery);
           return new Response(String(error), {
             status: STATUS_CODE.InternalServerError,
             statusText: STATUS_TEXT[STATUS_CODE.InternalServerError],
           });
         }
       }
+    } else if (JOB_PATH.test(pathname)) {
+      const id = decodeURIComponent(pathname.match(JOB_PATH)![1]);
+      const jobStatus = this.db.getJob(id);
+      if (!jobStatus) {
+        return new Response(`No job with id ${id}`, {
+          status: STATUS_CODE.NotFound,
+          statusText: STATUS_TEXT[STATUS_CODE.NotFound],
+        });
+      }
+      return new Response(
+        jobPage(this.config, jobStatus, this.db.fileResults(id)),
+        { headers: { "content-type": "text/html" } },
+      );
+    } else if (JOB_LOG_STREAM_PATH.test(pathname)) {
+      const id = decodeURIComponent(pathname.match(JOB_LOG_STREAM_PATH)![1]);
+      return this.streamJobLog(request, id);
     } else if (pathname === "/status" || pathname === "/status/") {
       console.log("· Got status badge request");
+      const name = requestUrl.searchParams.get("repository");
+      const repositories = this.selectRepositories(requestUrl);
+      if (repositories instanceof Response) return repositories;
       const response = await serveFile(
         request,
-        `${this.config.workDir}/status.svg`,
+        name === null
+          ? `${this.config.workDir}/status.svg`
+          : `${repositoryDir(this.config, name)}/status.svg`,
       );
       response.headers.set("Content-Type", "image/svg+xml");
       return response;
     } else if (pathname === "/jobs.json") {
       console.log("· Got request for jobs.json");
-      const from = Number.parseInt(requestUrl.searchParams.get("from") || "0");
-      const till = Number.parseInt(
-        requestUrl.searchParams.get("till") || "200",
-      );
-      const json = JSON.stringify(
-        this.db.allJobs(false, [from, till]),
-        undefined,
-        2,
-      );
-      const response = new Response(json);
-      response.headers.set("Content-Type", "application/json");
-      return response;
+      return this.jobsJson(requestUrl);
     } else if (pathname.startsWith(this.config.workDir)) {
+      // logs of old jobs might have been compressed by pruning, the path must
+      // not escape the jobs directory (e.g. via an encoded "/../")
+      const file = path.resolve(decodeURIComponent(pathname));
+      const jobsDir = path.resolve(this.config.workDir, "jobs");
+      if (
+        file.startsWith(`${jobsDir}/`) && file.endsWith("/log.txt") &&
+        !existsSync(file) && existsSync(`${file}.gz`)
+      ) {
+        const response = await serveFile(request, `${file}.gz`);
+        response.headers.set("Content-Encoding", "gzip");
+        response.headers.set("Content-Type", "text/plain; charset=UTF-8");
+        return response;
+      }
       //serving workdir
       const response = await serveDir(request, {
         fsRoot: "/",
@@ -426,7 +1413,11 @@ export class GHActServer {
     } else if (pathname === "/") {
       //fallback to directory serving
       const response = new Response(
-        indexPage(this.config.title, this.config.description, this.db),
+        indexPage(
+          this.config,
+          this.db,
+          requestUrl.searchParams.get("repository") ?? undefined,
+        ),
         {
           headers: { "content-type": "text/html" },
         },
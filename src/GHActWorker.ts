@@ -1,33 +1,77 @@
 /// <reference lib="webworker" />
 
 import {
+  type ChangeSummary,
   type Config,
+  type FileResult,
   type FullUpdateGatherJob,
   type FullUpdateJob,
   GitRepository,
   type Job,
+  type ReportFileFn,
+  type SourceRepository,
+  type WebhookJob,
 } from "../mod.ts";
 import { path, walk } from "./deps.ts";
-import { createBadge, LogFn } from "./log.ts";
-import { JobsDataBase } from "./JobsDataBase.ts";
+import { LogFn } from "./log.ts";
+import { registerSecret } from "./secrets.ts";
+import { decompressLog, JobsDataBase, type JobStatus } from "./JobsDataBase.ts";
+import { openJobStore } from "./jobStores.ts";
+import { Manifest } from "./Manifest.ts";
+import {
+  type CommitState,
+  CommitStatusReporter,
+} from "./CommitStatusReporter.ts";
+import {
+  abortable,
+  branchDir,
+  createPathFilter,
+  type FileChanges,
+  hasChanges,
+  hasPathFilter,
+  isRetryable,
+  jobType,
+  retryDelay,
+  sleep,
+  sourceRepositories,
+  updateBadges,
+} from "./helpers.ts";
 
 const GHTOKEN = Deno.env.get("GHTOKEN");
 if (!GHTOKEN) console.warn("GHTOKEN is missing!");
 
+/**
+ * Milliseconds to wait for an aborted jobHandler to return before the worker
+ * asks the server to replace it
+ * @internal
+ */
+const HANDLER_GRACE_PERIOD = 5_000;
+
+/** Size of the file in bytes, 0 if it doesn't exist (yet) */
+function fileSize(file: string) {
+  try {
+    return Deno.statSync(file).size;
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return 0;
+    throw err;
+  }
+}
+
 /**
  * This webworker performs the actual work, including the long running operations on the repository.
  * The jobs are accepted as messages and stored on disk, when the worker is started uncompleted jobs are picked up and executed.
  *
  * The constructor registers a new EventHandler at scope.onmessage to handle incoming messages by GHActServer running in the main thread.
  *
- * uses the GHTOKEN environment variable to authenticate the GitRepository if given.
+ * uses the GHTOKEN environment variable to authenticate the GitRepository if given (and no `token` is configured for the repository).
  *
  * example usage:
  * ```ts
  * /// <reference lib="webworker" />
  * import { GHActWorker, type Job } from ".";
- * new GHActWorker(self, (job: Job, log) => {
+ * new GHActWorker(self, (job: Job, log, signal) => {
  *   log(`Proudly executing ${JSON.stringify(job, undefined, 2)}`);
+ *   signal.throwIfAborted();
  * });
  * ```
  */
@@ -39,50 +83,204 @@ export class GHActWorker {
   /** @internal */
   private isRunning = false;
   /**
-   * The source-repository
+   * Identifies this worker in the pool of workers, assigned by GHActServer
+   * @internal
+   */
+  private workerId = "0";
+  /**
+   * The job currently being executed and the controller to abort it
+   * @internal
+   */
+  private current?: {
+    job: Job | FullUpdateGatherJob;
+    controller: AbortController;
+  };
+  /** @internal */
+  private repositories: SourceRepository[] = [];
+  /**
+   * Set if `config.commitStatus` is configured
+   * @internal
+   */
+  private reporter?: CommitStatusReporter;
+  /**
+   * The checkout of each branch of the source repositories and the files
+   * processed so far (to detect removed files in full updates), by
+   * `${repository}:${branch}` (and `#${number}` for the isolated checkouts of
+   * pull requests). Created when first needed.
+   * @internal
    */
-  gitRepository?: GitRepository;
+  private readonly workspaces = new Map<
+    string,
+    { gitRepository: GitRepository; manifest: Manifest }
+  >();
+  /**
+   * The checkout of the default branch of the (first) source repository
+   * @internal
+   */
+  private defaultRepository?: GitRepository;
+
+  /**
+   * The source-repository: while a job is executed, the checkout it belongs to
+   * (see `repositoryFor`, e.g. the read-only checkout of a pull request),
+   * otherwise the default branch of the first one if several are configured.
+   */
+  get gitRepository(): GitRepository | undefined {
+    return this.current
+      ? this.repositoryFor(this.current.job)
+      : this.defaultRepository;
+  }
 
   /**
    * Note that the before execution of the jobHandler callback function,
-   * GHActWorker will pull the git repository into ${config.workDir}/repository.
+   * GHActWorker will pull the git repository into ${config.workDir}/repository
+   * (for the chunks of a full update, once before they are queued).
    *
    * Any other git actions (e.g. commit of changed files) must be handled by the jobHandler.
+   * While the jobHandler runs, other workers of the pool do not update the
+   * checkout (see `GitRepository.whileInUse`).
+   *
+   * The `signal` passed to the jobHandler is aborted if the job is cancelled
+   * (via `POST /jobs/{id}/cancel`) or times out (see `config.jobTimeout`).
+   * Long running handlers should check it regularly (e.g.
+   * `signal.throwIfAborted()`) or pass it on to `Deno.Command`. The job is
+   * marked as cancelled or failed right away, but the worker does not execute
+   * further jobs until the handler has returned. If it doesn't return within
+   * 5s, the worker asks GHActServer to terminate it (which kills the commands
+   * it spawned) and to start a new one in its place.
+   *
+   * Handlers processing many files can report the outcome of each file with
+   * `reportFile`. If any file failed, the job fails and only the failed files
+   * can be retried (via `POST /jobs/{id}/retry-failed`).
    */
   constructor(
-    scope: (Window | WorkerGlobalScope) & typeof globalThis,
+    private readonly scope: (Window | WorkerGlobalScope) & typeof globalThis,
     private readonly jobHandler: (
       job: Job,
       log: LogFn,
+      signal: AbortSignal,
+      reportFile: ReportFileFn,
     ) => void | Promise<void> | string | Promise<string>,
   ) {
     scope.onmessage = async (e: MessageEvent) => {
       if (e.data.type === "init") {
         this.config = e.data.config;
-        this.gitRepository = new GitRepository(
-          this.config!.sourceRepositoryUri,
-          this.config!.sourceBranch,
-          GHTOKEN,
-          `${this.config!.workDir}/repository`,
+        this.workerId = e.data.workerId ?? this.workerId;
+        this.repositories = sourceRepositories(this.config!);
+        registerSecret(...this.repositories.map((r) => r.token));
+        const [defaultRepository] = this.repositories;
+        this.defaultRepository = this.workspace(
+          defaultRepository,
+          defaultRepository.branch,
+        ).gitRepository;
+        const jobsDir = `${this.config!.workDir}/jobs`;
+        this.queue = new JobsDataBase(
+          jobsDir,
+          openJobStore(this.config!.jobStore, jobsDir),
         );
-        this.queue = new JobsDataBase(`${this.config!.workDir}/jobs`);
-        console.log("Worker initialized with config:", this.config);
-        // Automatically start processing any pending jobs on initialization
+        if (this.config!.commitStatus) {
+          this.reporter = new CommitStatusReporter(
+            this.config!.commitStatus,
+            GHTOKEN,
+          );
+        }
+        console.log(
+          `Worker ${this.workerId} initialized with config:`,
+          {
+            ...this.config,
+            sourceRepositories: this.config!.sourceRepositories?.map((r) => ({
+              ...r,
+              token: r.token && "***",
+            })),
+          },
+        );
+        // Automatically start processing any queued jobs on initialization
         if (!this.isRunning) await this.startTask();
         return;
       }
 
+      if (e.data.type === "cancel") {
+        if (this.current && this.current.job.id === e.data.jobId) {
+          console.log(`Aborting job ${e.data.jobId}`);
+          this.current.controller.abort(new Error("Cancelled via API"));
+        }
+        return;
+      }
+
       if (!this.config || !this.queue || !this.gitRepository) {
         console.error("Worker not initialized. Ignoring message:", e.data);
         return;
       }
 
-      // Jobs are queued by the server, this message is just a trigger
+      // Jobs are queued by the server, this message is just a trigger.
+      // If already running, the queue is checked again after the current job.
       if (!this.isRunning) await this.startTask();
-      else console.log("Already running");
     };
   }
 
+  /**
+   * The checkout of the branch of the source repository the job belongs to
+   * (see `job.repository` and `job.branch`), for use in the jobHandler.
+   *
+   * For a PullRequestJob this is the isolated, read-only checkout of the pull
+   * request: `push` throws.
+   */
+  repositoryFor(job: Job | FullUpdateGatherJob): GitRepository {
+    return this.workspaceFor(job).gitRepository;
+  }
+
+  /** @internal */
+  private workspaceFor(job: Job | FullUpdateGatherJob) {
+    const repository = job.repository
+      ? this.repositories.find((r) => r.name === job.repository)
+      : this.repositories[0];
+    if (!repository) {
+      throw new Error(`Unknown source repository ${job.repository}`);
+    }
+    return this.workspace(
+      repository,
+      job.branch ?? repository.branch,
+      "type" in job && job.type === "pull_request"
+        ? job.pullRequest.number
+        : undefined,
+    );
+  }
+
+  /**
+   * @param pullRequest number of the pull request to the branch, for its
+   * isolated checkout in `pull_requests/${pullRequest}`
+   * @internal
+   */
+  private workspace(
+    repository: SourceRepository,
+    branch: string,
+    pullRequest?: number,
+  ) {
+    const key = `${repository.name}:${branch}` +
+      (pullRequest === undefined ? "" : `#${pullRequest}`);
+    let workspace = this.workspaces.get(key);
+    if (!workspace) {
+      const dir = branchDir(this.config!, repository, branch) +
+        (pullRequest === undefined ? "" : `/pull_requests/${pullRequest}`);
+      const gitRepository = new GitRepository(
+        repository.uri,
+        branch,
+        repository.token ?? GHTOKEN,
+        `${dir}/repository`,
+      );
+      if (hasPathFilter(this.config!)) {
+        gitRepository.pathFilter = createPathFilter(this.config!);
+      }
+      gitRepository.detectRenames = this.config!.detectRenames ?? false;
+      gitRepository.readOnly = pullRequest !== undefined;
+      workspace = {
+        gitRepository,
+        manifest: new Manifest(`${dir}/manifest.txt`),
+      };
+      this.workspaces.set(key, workspace);
+    }
+    return workspace;
+  }
+
   /** @internal */
   private async startTask() {
     if (this.isRunning) {
@@ -101,102 +299,504 @@ export class GHActWorker {
     }
   }
 
-  /** @internal */
+  /**
+   * Executes jobs as long as there are queued jobs this worker may lease.
+   * Other workers of the pool might be executing jobs at the same time.
+   * @internal
+   */
   private async run() {
-    while (this.queue!.pendingJobs().length > 0) {
-      const jobStatus = this.queue!.pendingJobs()[0];
+    let jobStatus: JobStatus | undefined;
+    while (
+      (jobStatus = this.queue!.leaseNextJob(
+        this.workerId,
+        this.config!.webhookDebounce,
+      ))
+    ) {
       const job = jobStatus.job;
 
-      const log = new LogFn(path.join(jobStatus.dir, "log.txt"), true);
+      const logFile = path.join(jobStatus.dir, "log.txt");
+      // a retried job might have been finished long enough for pruning
+      await decompressLog(jobStatus.dir);
+      const log = new LogFn(logFile, true, {
+        consoleLevel: this.config!.logLevel,
+        jsonFile: this.config!.jsonLog
+          ? path.join(jobStatus.dir, "log.jsonl")
+          : undefined,
+      });
+      const controller = new AbortController();
+      this.current = { job, controller };
+      const isGatherJob = "type" in job && job.type === "full_update_gather";
+      const maxAttempts = this.config!.retry?.maxAttempts ?? 1;
+      const timeout = this.config!.jobTimeoutByType?.[jobType(job)] ??
+        this.config!.jobTimeout;
+      // the execution of the latest attempt, while it has not settled
+      let unsettled: Promise<void> | undefined;
 
       try {
-        this.queue!.setStatus(job, "pending");
-        log(`=== Starting job ${job.id} ===`);
-        if ("type" in job && job.type === "full_update_gather") {
-          await this.gatherJobsForFullUpdate(job, log);
-          // gatherJobsForFullUpdate handles setting job status itself
-        } else {
-          await this.gitRepository!.updateLocalData(log);
-          const message = await this.jobHandler(job, log) as string | undefined;
-          this.queue!.setStatus(job, "completed", message);
-          log(`=== Sucessfully completed job ${job.id} ===`);
-          createBadge("OK", this.config!.workDir, this.config!.title);
+        log(`=== Starting job ${job.id} on worker ${this.workerId} ===`);
+        await this.reportStatus(jobStatus, log);
+        for (let attempt = 1;; attempt++) {
+          this.abortIfCancelled(job, controller);
+          controller.signal.throwIfAborted();
+          this.queue!.startAttempt(job, fileSize(logFile));
+          if (attempt > 1) log(`=== Attempt ${attempt} of ${maxAttempts} ===`);
+          const timeoutController = new AbortController();
+          const timer = timeout === undefined ? undefined : setTimeout(() => {
+            log(
+              `=== Timeout: job ${job.id} did not finish within ${
+                timeout / 1000
+              }s, aborting ===`,
+              "error",
+            );
+            timeoutController.abort(
+              new Error(`Job timed out after ${timeout / 1000}s`),
+            );
+          }, timeout);
+          const signal = AbortSignal.any([
+            controller.signal,
+            timeoutController.signal,
+          ]);
+          const results: Record<string, FileResult> = {};
+          const reportFile: ReportFileFn = (file, status, reason) => {
+            results[file] = reason === undefined
+              ? { status }
+              : { status, reason };
+          };
+          try {
+            // other workers must not update the checkout in the meantime
+            const execution = this.repositoryFor(job).whileInUse(() =>
+              this.execute(job, log, signal, reportFile)
+            );
+            const settle = () => {
+              unsettled = undefined;
+            };
+            unsettled = execution.then(settle, settle);
+            // the jobHandler might ignore the signal, so we stop waiting for it
+            const { status, message, files } = await abortable(
+              execution,
+              signal,
+            );
+            this.abortIfCancelled(job, controller);
+            controller.signal.throwIfAborted();
+            const reported = Object.values(results);
+            const failed = reported.filter((r) => r.status === "failed");
+            if (failed.length > 0) {
+              throw new Error(
+                `${failed.length} of ${reported.length} files failed`,
+              );
+            }
+            if (files) await this.workspaceFor(job).manifest.update(files);
+            this.queue!.setStatus(job, status, message);
+            if (status === "skipped") {
+              log(`=== Skipped job ${job.id}: ${message} ===`);
+            } else {
+              log(`=== Sucessfully completed job ${job.id} ===`);
+            }
+            if (status === "completed" && !isGatherJob) {
+              updateBadges(this.config!, this.queue!);
+            }
+            break;
+          } catch (error) {
+            this.abortIfCancelled(job, controller);
+            if (controller.signal.aborted) throw error;
+            this.queue!.failAttempt(job, "" + error);
+            if (
+              timeoutController.signal.aborted ||
+              attempt >= maxAttempts ||
+              !isRetryable(this.config!.retry!, error)
+            ) {
+              throw error;
+            }
+            const delay = retryDelay(this.config!.retry!, attempt);
+            log(`=== Attempt ${attempt} failed: ${error} ===`, "warn");
+            log(`=== Retrying in ${delay / 1000}s ===`, "warn");
+            await sleep(delay, controller.signal);
+          } finally {
+            clearTimeout(timer);
+            // results of earlier attempts are replaced, even if there are none
+            if (
+              Object.keys(results).length > 0 ||
+              this.queue!.getJob(job.id)?.fileResults
+            ) {
+              this.queue!.setFileResults(job, results);
+            }
+          }
         }
       } catch (error) {
-        this.queue!.setStatus(job, "failed", "" + error);
-        log(`=== Failed job ${job.id} ===\n=== Error: ===`);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        log(errorMessage);
-        if (error instanceof Error && error.stack) log(error.stack);
-        createBadge("Failed", this.config!.workDir, this.config!.title);
+        if (controller.signal.aborted) {
+          // the server already marked it (and its children) as cancelled, but
+          // a full_update_gather job might have queued children since
+          for (const child of this.queue!.childJobs(job.id)) {
+            if (child.status === "queued") {
+              this.queue!.setStatus(
+                child.job,
+                "cancelled",
+                "Cancelled via API",
+              );
+            }
+          }
+          log(`=== Cancelled job ${job.id} ===`, "warn");
+        } else {
+          this.queue!.setStatus(job, "failed", "" + error);
+          log(`=== Failed job ${job.id} ===\n=== Error: ===`, "error");
+          const errorMessage = error instanceof Error
+            ? error.message
+            : String(error);
+          log(errorMessage, "error");
+          if (error instanceof Error && error.stack) {
+            log(error.stack, "error");
+          }
+          if (!isGatherJob) updateBadges(this.config!, this.queue!);
+        }
+      } finally {
+        await this.reportStatus(this.queue!.getJob(job.id) ?? jobStatus, log);
+        if (unsettled) {
+          // it might still change the checkout or use resources
+          log(
+            "=== Waiting for the jobHandler to return before executing further jobs ===",
+            "warn",
+          );
+          const gracePeriod = new AbortController();
+          const returned = await Promise.race([
+            unsettled.then(() => true),
+            sleep(HANDLER_GRACE_PERIOD, gracePeriod.signal).then(
+              () => false,
+              () => true,
+            ),
+          ]);
+          gracePeriod.abort();
+          if (!returned) {
+            log(
+              `=== The jobHandler did not return within ${
+                HANDLER_GRACE_PERIOD / 1000
+              }s, asking the server to replace this worker ===`,
+              "error",
+            );
+            // terminating the worker also kills the processes it spawned and
+            // releases the checkout
+            this.scope.postMessage({ type: "unresponsive", jobId: job.id });
+            await unsettled;
+          }
+        }
+        if (this.current?.job.id === job.id) this.current = undefined;
+        // finishing a job might allow other workers to lease jobs which were blocked by it
+        this.scope.postMessage({ type: "finished", jobId: job.id });
       }
     }
   }
 
-  /** @internal */
-  private async gatherJobsForFullUpdate(job: FullUpdateGatherJob, log: LogFn) {
-    this.isRunning = true;
-    try {
-      await this.gitRepository!.updateLocalData();
-      const date = job.id.split(" ")[0];
-      let block = 0;
-      const jobs: FullUpdateJob[] = [];
-      let files: string[] = [];
-      for await (
-        const walkEntry of walk(this.gitRepository!.directory, {
-          exts: undefined,
-          includeDirs: false,
-          includeSymlinks: false,
-        })
-      ) {
-        if (walkEntry.isFile) {
-          files.push(
-            // this.gitRepository.directory does not contain a trailing /, but we want our filenames not to begin with one
-            walkEntry.path.replace(this.gitRepository!.directory + "/", ""),
-          );
-          if (files.length >= 3000) { // github does not generate diffs if more than 3000 files have been changed
-            jobs.push({
-              author: {
-                name: this.config!.title,
-                email: this.config!.email,
-              },
-              id: `${date} full update: ${
-                (++block).toString(10).padStart(3, "0")
-              }`, // note that the id must begin with a datestamp for correct ordering
-              files: { modified: files },
-            });
-            files = [];
-          }
-        } else {
-          log(`skipped ${walkEntry.path}`);
+  /**
+   * Aborts the job if the server marked it as cancelled, also if the `cancel`
+   * message was not received (yet), so that its status is not overwritten.
+   * @internal
+   */
+  private abortIfCancelled(
+    job: Job | FullUpdateGatherJob,
+    controller: AbortController,
+  ) {
+    if (this.queue!.getJob(job.id)?.status === "cancelled") {
+      controller.abort(new Error("Cancelled via API"));
+    }
+  }
+
+  /**
+   * Reports the status of the job as commit status of its `till` commit, if
+   * `config.commitStatus` is set.
+   * @internal
+   */
+  private async reportStatus(jobStatus: JobStatus, log: LogFn) {
+    if (!this.reporter) return;
+    const job = jobStatus.job;
+    const states: Partial<Record<JobStatus["status"], CommitState>> = {
+      running: "pending",
+      completed: "success",
+      skipped: "success",
+      failed: "failure",
+      cancelled: "error",
+    };
+    const state = states[jobStatus.status];
+    if (!state) return;
+    const repository = job.repository
+      ? this.repositories.find((r) => r.name === job.repository)
+      : this.repositories[0];
+    if (!repository) return;
+    const serverUrl = this.reporter.options.serverUrl.replace(/\/$/, "");
+    await this.reporter.report(
+      repository.name,
+      job.till,
+      {
+        state,
+        description: state === "pending"
+          ? "Running"
+          : jobStatus.message || jobStatus.status,
+        targetUrl: `${serverUrl}/jobs/${encodeURIComponent(job.id)}`,
+        preview: jobType(job) === "pull_request",
+      },
+      log,
+      repository.token,
+    );
+  }
+
+  /**
+   * Executes a single attempt of the job.
+   *
+   * Jobs triggered via /update are passed to the jobHandler with the files
+   * changed in the requested span of commits (matching `config.include` and
+   * `config.exclude`), they are skipped if there are none.
+   *
+   * Pull request previews are passed to the jobHandler with the changes of the
+   * pull request, nothing is recorded in the manifest for them.
+   *
+   * Webhook jobs are passed with the changes determined by `webhookChanges`.
+   *
+   * The chunks of a full update are executed on the checkout as pulled by
+   * their full_update_gather job.
+   *
+   * @returns the resulting status, the message to be shown with it and the
+   * files processed by a completed job (to be recorded in the manifest)
+   * @internal
+   */
+  private async execute(
+    job: Job | FullUpdateGatherJob,
+    log: LogFn,
+    signal: AbortSignal,
+    reportFile: ReportFileFn,
+  ): Promise<{
+    status: "completed" | "skipped";
+    message?: string;
+    files?: Partial<FileChanges>;
+  }> {
+    if ("type" in job && job.type === "full_update_gather") {
+      await this.gatherJobsForFullUpdate(job, log, signal);
+      return { status: "completed" };
+    }
+    const gitRepository = this.repositoryFor(job);
+    if ("type" in job && job.type === "pull_request") {
+      const changes = await gitRepository.checkoutPullRequest(
+        job.pullRequest.number,
+        job.from!,
+        job.till!,
+        log,
+      );
+      signal.throwIfAborted();
+      const message = await this.jobHandler(
+        { ...job, files: changes },
+        log,
+        signal,
+        reportFile,
+      ) as string | undefined;
+      signal.throwIfAborted();
+      return { status: "completed", message };
+    }
+    // the chunks of a full update run in parallel on the checkout pulled by
+    // their full_update_gather job, pulling would wait for the other chunks
+    if (this.queue!.getJob(job.id)?.parent === undefined) {
+      await gitRepository.updateLocalData(log);
+    }
+    if ("type" in job && job.type === "tag") {
+      await gitRepository.fetchTag(job.tag, log);
+    }
+    signal.throwIfAborted();
+    let files: Partial<FileChanges> | undefined = "files" in job
+      ? job.files
+      : undefined;
+    if (jobType(job) === "webhook") {
+      const changes = await this.webhookChanges(
+        job as WebhookJob,
+        gitRepository,
+        log,
+      );
+      files = changes;
+      if (hasPathFilter(this.config!) && !hasChanges(changes)) {
+        return { status: "skipped", message: "No matching files changed" };
+      }
+      job = { ...job, files: changes } as WebhookJob;
+    }
+    if (jobType(job) === "update") {
+      const changes = await gitRepository.getModifiedAfter(
+        job.from!,
+        job.till,
+        log,
+      );
+      files = changes;
+      if (hasPathFilter(this.config!)) {
+        if (!hasChanges(changes)) {
+          return { status: "skipped", message: "No matching files changed" };
         }
+        job = { ...job, files: changes } as WebhookJob;
       }
-      if (files.length > 0) {
-        jobs.push({
-          author: {
-            name: this.config!.title,
-            email: this.config!.email,
-          },
-          id: `${date} full update: ${(++block).toString(10).padStart(3, "0")}`, // note that the id must begin with a datestamp for correct ordering
-          files: { modified: files },
-        });
+    }
+    signal.throwIfAborted();
+    const message = await this.jobHandler(job, log, signal, reportFile) as
+      | string
+      | undefined;
+    signal.throwIfAborted();
+    return { status: "completed", message, files };
+  }
+
+  /**
+   * The changes of a push: the files listed in the webhook payload if they are
+   * reliable, otherwise they are recomputed with git (and logged which source
+   * was used):
+   * - new branches (`from` is all zeros): all files of `till`, as the checkout
+   *   of the branch has not processed any yet
+   * - force-pushes (`from` is not an ancestor of `till`): the changes from the
+   *   merge base till `till` and the files changed by the dropped commits
+   *   (from the merge base till `from`), which need to be processed again
+   * - incomplete file lists (e.g. truncated by the forge): the changes from
+   *   `from` till `till`
+   * @internal
+   */
+  private async webhookChanges(
+    job: WebhookJob,
+    gitRepository: GitRepository,
+    log: LogFn,
+  ): Promise<ChangeSummary> {
+    const { from, till } = job.files;
+    if (/^0+$/.test(from)) {
+      log(`== New branch: using all files of ${till} (git) ==`);
+      return await gitRepository.getChangesBetween(
+        GitRepository.EMPTY_TREE,
+        till,
+        log,
+      );
+    }
+    const mergeBase = await gitRepository.mergeBase(from, till, log);
+    if (mergeBase === undefined) {
+      if (!job.incomplete) {
+        log(
+          `== Could not find ${from} in the repository, using the changed files listed by the webhook ==`,
+          "warn",
+        );
+        return job.files;
       }
-      jobs.forEach((j) => {
-        j.id += ` of ${block.toString(10).padStart(3, "0")}`;
-        this.queue!.addJob(j);
+      log(
+        `== Could not find ${from} in the repository and the webhook doesn't list all changed files: using all files of ${till} (git) ==`,
+        "warn",
+      );
+      return await gitRepository.getChangesBetween(
+        GitRepository.EMPTY_TREE,
+        till,
+        log,
+      );
+    }
+    if (mergeBase !== from) {
+      log(
+        `== Force-push: ${from} is not an ancestor of ${till}, using the changes since the merge base ${mergeBase} (git) ==`,
+      );
+      return await gitRepository.getForcePushChanges(
+        mergeBase,
+        from,
+        till,
+        log,
+      );
+    }
+    if (job.incomplete) {
+      log(
+        `== The webhook doesn't list all changed files, using the changes from ${from} till ${till} (git) ==`,
+      );
+      return await gitRepository.getChangesBetween(from, till, log);
+    }
+    log("== Using the changed files listed by the webhook ==");
+    return job.files;
+  }
+
+  /**
+   * Walks the repository and queues jobs of up to 3000 files each, as
+   * children of the gathering job.
+   *
+   * Files listed in the manifest but no longer present in the repository are
+   * queued as removed.
+   *
+   * If the job already created its children (i.e. it is resumed after a
+   * restart), the remaining children are left to run and nothing is gathered.
+   *
+   * Throws on failure, setting the status of the job is up to the caller.
+   * @internal
+   */
+  private async gatherJobsForFullUpdate(
+    job: FullUpdateGatherJob,
+    log: LogFn,
+    signal: AbortSignal,
+  ) {
+    const existing = this.queue!.childJobs(job.id);
+    if (existing.length > 0) {
+      const remaining = existing.filter((js) =>
+        js.status === "queued" || js.status === "running"
+      );
+      log(
+        `Resuming full update with ${remaining.length} of ${existing.length} jobs remaining`,
+      );
+      return;
+    }
+    const { gitRepository, manifest } = this.workspaceFor(job);
+    await gitRepository.updateLocalData();
+    const pathFilter = createPathFilter(this.config!);
+    // e.g. "2024-01-01T00:00:00.000Z full update", with the repository in between if several are configured
+    const idPrefix = job.id.replace(/ gathering$/, "");
+    const jobs: FullUpdateJob[] = [];
+    let files: Required<FullUpdateJob["files"]> = { modified: [], removed: [] };
+    const flush = () => {
+      jobs.push({
+        author: {
+          name: this.config!.title,
+          email: this.config!.email,
+        },
+        id: `${idPrefix}: ${(jobs.length + 1).toString(10).padStart(3, "0")}`, // note that the id must begin with a datestamp for correct ordering
+        repository: job.repository,
+        branch: job.branch,
+        files,
       });
-      log(`Created ${block} jobs for full update`);
-      log(`=== Sucessfully completed job ${job.id} ===`);
-      this.queue!.setStatus(job, "completed");
-    } catch (error) {
-      this.queue!.setStatus(job, "failed", "" + error);
-      log(`=== Failed job ${job.id} ===\n=== Error: ===`);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      log(errorMessage);
-      if (error instanceof Error && error.stack) log(error.stack);
-    } finally {
-      this.isRunning = false;
-      await this.startTask();
+      files = { modified: [], removed: [] };
+    };
+    // github does not generate diffs if more than 3000 files have been changed
+    const add = (file: string, change: keyof typeof files) => {
+      files[change].push(file);
+      if (files.modified.length + files.removed.length >= 3000) flush();
+    };
+    // all files present, also those excluded by config.include/config.exclude
+    const present = new Set<string>();
+    let excluded = 0;
+    for await (
+      const walkEntry of walk(gitRepository.directory, {
+        exts: undefined,
+        includeDirs: false,
+        includeSymlinks: false,
+        skip: [/\/\.git$/],
+      })
+    ) {
+      signal.throwIfAborted();
+      // gitRepository.directory does not contain a trailing /, but we want our filenames not to begin with one
+      const file = walkEntry.path.replace(
+        gitRepository.directory + "/",
+        "",
+      );
+      if (walkEntry.isFile) present.add(file);
+      if (walkEntry.isFile && !pathFilter(file)) {
+        excluded++;
+      } else if (walkEntry.isFile) {
+        add(file, "modified");
+      } else {
+        log(`skipped ${walkEntry.path}`);
+      }
+    }
+    let removed = 0;
+    for (const file of manifest.read()) {
+      if (!present.has(file)) {
+        add(file, "removed");
+        removed++;
+      }
+    }
+    if (files.modified.length + files.removed.length > 0) flush();
+    const total = jobs.length.toString(10).padStart(3, "0");
+    jobs.forEach((j) => j.id += ` of ${total}`);
+    this.queue!.addChildJobs(job, jobs);
+    if (excluded > 0) {
+      log(`Excluded ${excluded} files by config.include/config.exclude`);
+    }
+    if (removed > 0) {
+      log(`Found ${removed} removed files no longer in the repository`);
     }
+    log(`Created ${jobs.length} jobs for full update`);
   }
 }
@@ -1,6 +1,7 @@
 import { type ChangeSummary, type Job } from "../mod.ts";
 import { existsSync } from "./deps.ts";
 import { combineCommandOutputs, commandOutputToLines, LogFn } from "./log.ts";
+import { filterChanges, touchedFiles } from "./helpers.ts";
 
 const consoleLog = new LogFn(false, true);
 
@@ -30,9 +31,35 @@ export class GitRepository {
    * e.g. `"/workdir/repository"`
    */
   readonly directory: string;
+  /**
+   * If set, only files for which it returns true are reported by
+   * `getModifiedAfter`, `getChangesBetween` and `checkoutPullRequest`
+   */
+  pathFilter?: (file: string) => boolean;
+  /**
+   * If set, renamed and copied files are reported as such (in
+   * `ChangeSummary.renamed` and `ChangeSummary.copied`) instead of as removed
+   * and added files
+   */
+  detectRenames = false;
+  /**
+   * If set, `push` throws. Set for the isolated checkouts of pull request
+   * previews, whose results must not be published.
+   */
+  readOnly = false;
+
+  /** Hash of the empty tree, see `getChangesBetween` */
+  static readonly EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
 
   /** @internal */
   private readonly authUri: string;
+  /**
+   * The shared lock on the checkout held while it is in use (see `whileInUse`)
+   * @internal
+   */
+  private checkoutLock?: Promise<Deno.FsFile>;
+  /** @internal */
+  private checkoutUsers = 0;
 
   /**
    * Only creates the repository instance in TS and ensures that the directory exists.
@@ -77,6 +104,13 @@ export class GitRepository {
    * will reduce the amount of storage occupied by the repository.
    */
   async cloneRepo(log: LogFn = consoleLog, blobless = false) {
+    await this.withCheckout(() =>
+      this.withLock(() => this.clone(log, blobless))
+    );
+  }
+
+  /** @internal */
+  private async clone(log: LogFn, blobless = false) {
     log(
       `== starting git clone for ${this.uri} ==\n== this may take some time ==`,
     );
@@ -108,7 +142,7 @@ export class GitRepository {
     if (success) {
       log("== git clone successful ==");
     } else {
-      log("== git clone failed ==");
+      log("== git clone failed ==", "error");
       throw new Error(
         `Cloning of ${this.uri} into ${this.directory} failed, see logs.`,
       );
@@ -116,38 +150,118 @@ export class GitRepository {
   }
 
   /**
-   * updates the repo (git pull)
+   * updates the repo to the latest commit of the branch (git fetch and reset,
+   * so that force-pushes are followed as well; the replaced commits stay
+   * available to compute merge bases). Local commits which were not pushed are
+   * discarded.
    *
    * if it fails, it automatically calls `this.emptyDataDir()` and `this.cloneRepo(log)`.
+   *
+   * Concurrent calls (also from other workers) are serialized, and wait until
+   * the checkout is no longer in use by other workers (see `whileInUse`).
    */
   async updateLocalData(log: LogFn = consoleLog) {
+    await this.withCheckout(() => this.withLock(() => this.pull(log)));
+  }
+
+  /** @internal */
+  private async pull(log: LogFn) {
     log("== starting git pull ==");
 
     if (existsSync(this.directory) && existsSync(`${this.directory}/.git`)) {
-      const command = new Deno.Command("/usr/bin/git", {
-        args: ["pull", "--no-stat"],
-        env: {
-          GIT_CEILING_DIRECTORIES: this.directory,
-        },
-        cwd: this.directory,
-        stdin: "null",
-        stderr: "piped",
-        stdout: "piped",
-      });
-      const child = command.spawn();
-      await log(combineCommandOutputs(child.stdout, child.stderr));
-      const { success } = await child.status;
-
-      if (!success) {
-        log("== git pull failed, will attempt to clone instead ==");
-      } else {
+      try {
+        await this.git(["fetch", "--no-tags", "origin", this.branch], log);
+        // unlike a merge, this also works if the branch was force-pushed
+        await this.git(["reset", "--hard", "FETCH_HEAD"], log);
         log("== git pull successful ==");
+        return;
+      } catch {
+        log("== git pull failed, will attempt to clone instead ==", "warn");
       }
-      if (success) return;
     }
 
     this.emptyDataDir();
-    await this.cloneRepo(log);
+    await this.clone(log);
+  }
+
+  /**
+   * Runs fn while holding a shared lock on the checkout, so that other workers
+   * of the pool do not change the checked out files (by `updateLocalData`,
+   * `cloneRepo` or `checkoutPullRequest`) while e.g. a jobHandler reads them.
+   * Calls to these functions within fn still work, they wait until no other
+   * worker uses the checkout. Commits and pushes are not affected.
+   */
+  async whileInUse<T>(fn: () => Promise<T>): Promise<T> {
+    this.checkoutUsers++;
+    this.checkoutLock ??= this.lockCheckout();
+    try {
+      await this.checkoutLock;
+      return await fn();
+    } finally {
+      if (--this.checkoutUsers === 0) {
+        const lock = this.checkoutLock;
+        this.checkoutLock = undefined;
+        (await lock.catch(() => undefined))?.close(); // also releases the lock
+      }
+    }
+  }
+
+  /** @internal */
+  private async lockCheckout(): Promise<Deno.FsFile> {
+    const lockFile = await Deno.open(`${this.directory}.checkout.lock`, {
+      create: true,
+      write: true,
+    });
+    try {
+      await lockFile.lock(false);
+    } catch (error) {
+      lockFile.close();
+      throw error;
+    }
+    return lockFile;
+  }
+
+  /**
+   * Runs fn while holding an exclusive lock on the checkout (see
+   * `whileInUse`). If the checkout is in use by this instance, its shared lock
+   * is converted for the time being.
+   * @internal
+   */
+  private async withCheckout<T>(fn: () => Promise<T>): Promise<T> {
+    const inUse = this.checkoutLock;
+    const lockFile = inUse
+      ? await inUse
+      : await Deno.open(`${this.directory}.checkout.lock`, {
+        create: true,
+        write: true,
+      });
+    try {
+      await lockFile.lock(true);
+      return await fn();
+    } finally {
+      if (inUse) await lockFile.lock(false);
+      else lockFile.close(); // also releases the lock
+    }
+  }
+
+  /**
+   * Runs fn while holding an exclusive lock on `${directory}.lock`, so that
+   * operations changing the repository are not executed concurrently, e.g. by
+   * several workers of a pool (which are separate threads sharing the
+   * directory).
+   * @internal
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockFile = await Deno.open(`${this.directory}.lock`, {
+      create: true,
+      write: true,
+    });
+    try {
+      await lockFile.lock(true);
+      return await fn();
+    } finally {
+      lockFile.close(); // also releases the lock
+    }
   }
 
   /**
@@ -189,6 +303,8 @@ export class GitRepository {
    *
    * It will figure out the full hashes of the commits and return them in the ChangeSummary (even if `tillCommit === "HEAD"`).
    *
+   * Only files passing `this.pathFilter` (if set) are included.
+   *
    * @param fromCommit Commit hash
    * @param tillCommit Commit hash, defaults to "HEAD"
    * @returns ChangeSummary describing the files changed between the two commits.
@@ -205,17 +321,31 @@ export class GitRepository {
     log(
       `== from: ${fromCommit} (${fromHash}), till: ${tillCommit} (${tillHash})`,
     );
+    const revisions = fromHash === tillHash
+      ? [`${fromHash}^!`]
+      : [`${fromHash}^@`, tillHash];
+    return await this.diff(revisions, fromHash, tillHash, log);
+  }
+
+  /**
+   * Runs `git diff` on the revisions and returns the changes as ChangeSummary
+   * from `fromHash` till `tillHash`.
+   * @internal
+   */
+  private async diff(
+    revisions: string[],
+    fromHash: string,
+    tillHash: string,
+    log: LogFn,
+  ): Promise<ChangeSummary> {
     const args = [
       "diff",
       "--name-status",
-      "--no-renames", // handle renames as a deletion and an addition
+      ...(this.detectRenames
+        ? ["--find-renames", "--find-copies"]
+        : ["--no-renames"]), // handle renames as a deletion and an addition
+      ...revisions,
     ];
-    if (fromHash === tillHash) {
-      args.push(`${fromHash}^!`);
-    } else {
-      args.push(`${fromHash}^@`);
-      args.push(tillHash);
-    }
     const command = new Deno.Command("/usr/bin/git", {
       args,
       cwd: this.directory,
@@ -231,35 +361,235 @@ export class GitRepository {
       throw new Error("git diff failed, see logs.");
     }
 
+    // e.g. `M\tpath` or `R093\told path\tnew path` (with similarity index)
     const typedFiles = (await Array.fromAsync(commandOutputToLines(stdout)))
-      .filter((
-        s,
-      ) => s.length > 0).map((s) =>
-        s.split(/(\s+)/).filter((p) => p.trim().length > 0)
-      );
-    const weirdFiles = typedFiles.filter((t) =>
-      t[0] !== "A" && t[0] !== "M" && t[0] !== "D"
-    );
+      .map((s) => s.replace(/\n$/, "")).filter((s) => s.length > 0)
+      .map((s) => s.split("\t"));
+    const status = (t: string[]) => t[0][0];
+    const weirdFiles = typedFiles.filter((t) => !"AMDTRC".includes(status(t)));
     if (weirdFiles.length) {
       log(
         `Unclear how to handle these files:\n - ${
-          weirdFiles.map((t) => t.join).join("\n - ")
+          weirdFiles.map((t) => t.join(" ")).join("\n - ")
         }`,
+        "warn",
       );
     }
-    return ({
-      added: typedFiles.filter((t) => t[0] === "A").map((t) => t[1]),
-      modified: typedFiles.filter((t) => t[0] === "M").map((t) => t[1]),
-      removed: typedFiles.filter((t) => t[0] === "D").map((t) => t[1]),
+    const files = (s: string) =>
+      typedFiles.filter((t) => status(t) === s).map((t) => t[1]);
+    const moves = (s: string) =>
+      typedFiles.filter((t) => status(t) === s).map((t) => ({
+        from: t[1],
+        to: t[2],
+      }));
+    const changes: ChangeSummary = {
+      added: files("A"),
+      // a type change (e.g. a file replaced by a symlink) is a modification
+      modified: [...files("M"), ...files("T")],
+      removed: files("D"),
       from: fromHash,
       till: tillHash,
+    };
+    if (files("T").length) changes.typeChanged = files("T");
+    if (this.detectRenames) {
+      changes.renamed = moves("R");
+      changes.copied = moves("C");
+    }
+    return this.pathFilter ? filterChanges(changes, this.pathFilter) : changes;
+  }
+
+  /**
+   * Checks out the head commit of the pull request (detached), cloning the
+   * repository first if necessary. The pull request is fetched from
+   * `refs/pull/${number}/head`, as provided by GitHub, Gitea and Forgejo.
+   *
+   * Concurrent calls (also from other workers) are serialized.
+   *
+   * @param base Hash of the commit the pull request is to be merged into
+   * @param head Hash of the head commit of the pull request
+   * @returns the changes of the pull request, i.e. from the merge base of
+   * `base` and `head` till `head`
+   */
+  async checkoutPullRequest(
+    number: number,
+    base: string,
+    head: string,
+    log: LogFn = consoleLog,
+  ): Promise<ChangeSummary> {
+    return await this.withCheckout(() =>
+      this.withLock(async () => {
+        if (!existsSync(`${this.directory}/.git`)) {
+          this.emptyDataDir();
+          await this.clone(log);
+        }
+        log(`== fetching pull request ${number} ==`);
+        await this.git([
+          "fetch",
+          "--quiet",
+          "--force",
+          "origin",
+          this.branch,
+          `+refs/pull/${number}/head:refs/remotes/origin/pull/${number}`,
+        ], log);
+        await this.git(
+          ["checkout", "--quiet", "--force", "--detach", head],
+          log,
+        );
+        const mergeBase = (await this.git(["merge-base", base, head], log))
+          .trim();
+        log(`== changes from merge base ${mergeBase} till ${head} ==`);
+        return await this.getChangesBetween(mergeBase, head, log);
+      })
+    );
+  }
+
+  /**
+   * Get a list of all files changed after `base` till `till` (`git diff base
+   * till`). Unlike `getModifiedAfter`, the changes made in `base` itself are
+   * not included. Use `GitRepository.EMPTY_TREE` as `base` to get all files
+   * present in `till` as added.
+   *
+   * Only files passing `this.pathFilter` (if set) are included.
+   */
+  async getChangesBetween(
+    base: string,
+    till: string,
+    log: LogFn = consoleLog,
+  ): Promise<ChangeSummary> {
+    return await this.diff([base, till], base, till, log);
+  }
+
+  /**
+   * The best common ancestor of the two commits (`git merge-base`), e.g. `a`
+   * itself if `b` descends from it. Undefined if there is none or if one of
+   * the commits is not available locally (e.g. because a force-push dropped it
+   * before it was fetched).
+   */
+  async mergeBase(
+    a: string,
+    b: string,
+    log: LogFn = consoleLog,
+  ): Promise<string | undefined> {
+    try {
+      return (await this.git(["merge-base", a, b], log)).trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The changes of a force-push which replaced `from` by `till`: the changes
+   * from their `mergeBase` till `till`, plus the files changed by the dropped
+   * commits (from the merge base till `from`), which are back to their state at
+   * the merge base and need to be processed again.
+   */
+  async getForcePushChanges(
+    mergeBase: string,
+    from: string,
+    till: string,
+    log: LogFn = consoleLog,
+  ): Promise<ChangeSummary> {
+    const pushed = await this.getChangesBetween(mergeBase, till, log);
+    const dropped = await this.getChangesBetween(mergeBase, from, log);
+    const changed = new Set(touchedFiles(pushed));
+    const droppedRenames = dropped.renamed ?? [];
+    return {
+      ...pushed,
+      from,
+      removed: [
+        ...pushed.removed,
+        ...[
+          ...dropped.added,
+          ...droppedRenames.map(({ to }) => to),
+          ...(dropped.copied ?? []).map(({ to }) => to),
+        ].filter((f) => !changed.has(f)),
+      ],
+      modified: [
+        ...pushed.modified,
+        ...[
+          ...dropped.modified,
+          ...dropped.removed,
+          ...droppedRenames.map(({ from }) => from),
+        ].filter((f) => !changed.has(f)),
+      ],
+    };
+  }
+
+  /**
+   * Runs git with the arguments in the directory and returns its output,
+   * throws if it fails.
+   * @internal
+   */
+  private async git(args: string[], log: LogFn): Promise<string> {
+    const command = new Deno.Command("/usr/bin/git", {
+      args,
+      env: {
+        GIT_CEILING_DIRECTORIES: this.directory,
+      },
+      cwd: this.directory,
+      stdin: "null",
+      stderr: "piped",
+      stdout: "piped",
+    });
+    const child = command.spawn();
+    const [stdout, stdoutForLog] = child.stdout.tee();
+    const [output] = await Promise.all([
+      new Response(stdout).text(),
+      log(combineCommandOutputs(stdoutForLog, child.stderr)),
+    ]);
+    const { success } = await child.status;
+    if (!success) {
+      throw new Error(`git ${args[0]} failed, see logs.`);
+    }
+    return output;
+  }
+
+  /**
+   * Fetches the tag (`git fetch --force origin tag ${tag}`), also if it points
+   * to a commit which is not on the checked out branch.
+   *
+   * Concurrent calls (also from other workers) are serialized.
+   */
+  async fetchTag(tag: string, log: LogFn = consoleLog) {
+    await this.withLock(async () => {
+      log(`== git fetch tag ${tag} ==`);
+      const command = new Deno.Command("/usr/bin/git", {
+        args: ["fetch", "--quiet", "--force", "origin", "tag", tag],
+        env: {
+          GIT_CEILING_DIRECTORIES: this.directory,
+        },
+        cwd: this.directory,
+        stdin: "null",
+        stderr: "piped",
+        stdout: "piped",
+      });
+      const child = command.spawn();
+      await log(combineCommandOutputs(child.stdout, child.stderr));
+      const { success } = await child.status;
+      if (!success) {
+        throw new Error(`Fetching tag ${tag} failed, see logs.`);
+      }
     });
   }
 
   /**
    * Wrapper for `git push`
+   *
+   * Concurrent calls (also from other workers) are serialized.
+   *
+   * @throws if `readOnly` is set
    */
   async push(log: LogFn = consoleLog) {
+    if (this.readOnly) {
+      throw new Error(
+        `Pushing from ${this.directory} is not allowed, it is a read-only checkout (e.g. a pull request preview)`,
+      );
+    }
+    await this.withLock(() => this.pushUnlocked(log));
+  }
+
+  /** @internal */
+  private async pushUnlocked(log: LogFn) {
     log("== git push ==");
     const command = new Deno.Command("/usr/bin/git", {
       args: [
@@ -289,8 +619,15 @@ export class GitRepository {
    * git add -A
    * git commit --quiet -m "${message}"
    * ```
+   *
+   * Concurrent calls (also from other workers) are serialized.
    */
   async commit(job: Job, message: string, log: LogFn = consoleLog) {
+    await this.withLock(() => this.commitUnlocked(job, message, log));
+  }
+
+  /** @internal */
+  private async commitUnlocked(job: Job, message: string, log: LogFn) {
     log("== git commit ==");
     const commands = `git config --replace-all user.name ${job.author.name}
                       git config --replace-all user.email ${job.author.email}
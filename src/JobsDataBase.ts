@@ -1,102 +1,842 @@
 import { path } from "./deps.ts";
-import { type FullUpdateGatherJob, type Job } from "../mod.ts";
+import {
+  type FileResult,
+  type FullUpdateGatherJob,
+  type Job,
+  type PullRequestJob,
+  type RetentionPolicy,
+  type WebhookJob,
+} from "../mod.ts";
+import { jobType, mergeChanges, touchedFiles } from "./helpers.ts";
+import {
+  FileSystemJobStore,
+  type JobQuery,
+  type JobStore,
+} from "./jobStores.ts";
+import { redact } from "./secrets.ts";
+
+/**
+ * - `queued`: waiting to be executed
+ * - `running`: currently being executed by the worker
+ * - `completed`, `failed`: finished executing
+ * - `cancelled`: cancelled before or while being executed
+ * - `skipped`: will not be executed as there is nothing to do
+ * - `superseded`: merged into another job (see `supersededBy`), which will be executed instead
+ */
+export type JobState =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "skipped"
+  | "superseded";
 
 export type JobStatus = {
   job: Job | FullUpdateGatherJob;
-  status: "pending" | "failed" | "completed";
+  status: JobState;
   message: string | undefined;
   dir: string;
+  /** One entry per attempt to execute the job, the latest one last */
+  attempts?: JobAttempt[];
+  /** ISO timestamp of when the job was (last) queued */
+  queuedAt?: string;
+  /** ISO timestamp of when the execution of the job (last) started */
+  startedAt?: string;
+  /** ISO timestamp of when the job finished, was cancelled or skipped */
+  finishedAt?: string;
+  /** Id of the worker which (last) leased the job */
+  workerId?: string;
+  /** Id of the job this job was merged into, if `superseded` */
+  supersededBy?: string;
+  /** Id of the job which created this job, e.g. the full_update_gather job of a full_update chunk */
+  parent?: string;
+  /**
+   * SHA-256 of the body of the webhook which queued the job (see
+   * `payloadHash`), to reject replayed deliveries
+   */
+  payloadHash?: string;
+  /**
+   * Number of files reported by the jobHandler per outcome in the latest
+   * attempt, the result of each file is kept in `results.json` (see
+   * `JobsDataBase.fileResults`)
+   */
+  fileResults?: Record<FileResult["status"], number>;
+};
+
+export type JobAttempt = {
+  /** Byte offset in log.txt where the log section of this attempt starts */
+  logOffset: number;
+  /** Error that made this attempt fail, undefined if it didn't (yet) */
+  error?: string;
+};
+
+/** JobStatus with durations (in ms) derived from its timestamps, as served by /jobs.json */
+export type TimedJobStatus = JobStatus & {
+  /** Time spent waiting in the queue, up to now if still queued */
+  queueWait?: number;
+  /** Time spent executing, up to now if still running */
+  duration?: number;
+};
+
+/** Aggregated state of the child jobs of a job */
+export type JobProgress = {
+  /** Number of child jobs */
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  /** Child jobs which are queued or running */
+  remaining: number;
+  /** Number of files in all child jobs */
+  files: number;
+  /** Number of files in completed child jobs */
+  processedFiles: number;
+};
+
+/** TimedJobStatus of a job together with its child jobs, as served by /jobs.json */
+export type JobTreeEntry = TimedJobStatus & {
+  /** Progress of the child jobs, only present if there are any */
+  progress?: JobProgress;
+  /** The child jobs (oldest first), only present if there are any */
+  children?: TimedJobStatus[];
+};
+
+/** The previews of a pull request, see `JobsDataBase.pullRequests` */
+export type PullRequestEntry = {
+  /** Source repository of the pull request, see `Job.repository` */
+  repository?: string;
+  /** Branch the pull request is to be merged into, see `Job.branch` */
+  branch?: string;
+  number: number;
+  /** Title as of the latest preview */
+  title: string;
+  url?: string;
+  /** The PullRequestJobs of the pull request, newest first */
+  runs: TimedJobStatus[];
+};
+
+/** A page of jobs, see `JobsDataBase.searchJobs` */
+export type JobSearchResult = {
+  jobs: JobTreeEntry[];
+  /** Number of matching jobs on all pages */
+  total: number;
+  /**
+   * Id of the last job of the page, to be passed as `after` for the next page.
+   * Undefined on the last page.
+   */
+  next?: string;
+};
+
+/** What `JobsDataBase.prune` did */
+export type PruneResult = {
+  /** Ids of the removed jobs */
+  removed: string[];
+  /** Ids of the jobs whose log was compressed */
+  compressed: string[];
 };
 
-function notEmpty<TValue>(value: TValue | null | undefined): value is TValue {
-  return value !== null && value !== undefined;
+/** Aggregates the states of the child jobs */
+export function jobProgress(children: JobStatus[]): JobProgress {
+  const count = (...states: JobState[]) =>
+    children.filter((js) => states.includes(js.status));
+  const files = (jobs: JobStatus[]) =>
+    jobs.reduce((sum, js) => sum + (touchedFiles(js.job)?.length ?? 0), 0);
+  return {
+    total: children.length,
+    completed: count("completed").length,
+    failed: count("failed").length,
+    cancelled: count("cancelled").length,
+    remaining: count("queued", "running").length,
+    files: files(children),
+    processedFiles: files(count("completed")),
+  };
+}
+
+/** Adds `queueWait` and `duration` to the JobStatus */
+export function withTimings(jobStatus: JobStatus): TimedJobStatus {
+  const now = Date.now();
+  const time = (iso?: string) => iso ? Date.parse(iso) : undefined;
+  const queuedAt = time(jobStatus.queuedAt);
+  const startedAt = time(jobStatus.startedAt);
+  const finishedAt = time(jobStatus.finishedAt);
+  return {
+    ...jobStatus,
+    queueWait: queuedAt === undefined
+      ? undefined
+      : (startedAt ?? finishedAt ?? now) - queuedAt,
+    duration: startedAt === undefined
+      ? undefined
+      : (finishedAt ?? now) - startedAt,
+  };
+}
+
+/**
+ * Whether the two jobs must not be executed at the same time: jobs of
+ * different source repositories or branches and the chunk jobs of the same
+ * full update (see `parent`) are disjoint by construction, other jobs conflict
+ * if they (might) touch the same files. full_update_gather jobs and jobs with
+ * unknown files conflict with any other job.
+ *
+ * Pull request previews use their own checkout, they only conflict with
+ * previews of the same pull request.
+ */
+function conflicting(a: JobStatus, b: JobStatus): boolean {
+  if (
+    a.job.repository && b.job.repository &&
+    a.job.repository !== b.job.repository
+  ) {
+    return false;
+  }
+  const pullRequestA = jobType(a.job) === "pull_request"
+    ? (a.job as PullRequestJob).pullRequest.number
+    : undefined;
+  const pullRequestB = jobType(b.job) === "pull_request"
+    ? (b.job as PullRequestJob).pullRequest.number
+    : undefined;
+  if (pullRequestA !== undefined || pullRequestB !== undefined) {
+    return pullRequestA === pullRequestB;
+  }
+  if (a.job.branch && b.job.branch && a.job.branch !== b.job.branch) {
+    return false;
+  }
+  if (
+    jobType(a.job) === "full_update" && jobType(b.job) === "full_update" &&
+    a.parent !== undefined && a.parent === b.parent
+  ) {
+    return false;
+  }
+  const filesA = touchedFiles(a.job);
+  const filesB = touchedFiles(b.job);
+  if (!filesA || !filesB) return true;
+  const setB = new Set(filesB);
+  return filesA.some((f) => setB.has(f));
+}
+
+/**
+ * Compresses `log.txt` in the job directory to `log.txt.gz`.
+ *
+ * @returns false if there is no uncompressed log
+ */
+export async function compressLog(dir: string): Promise<boolean> {
+  const log = path.join(dir, "log.txt");
+  let input: Deno.FsFile;
+  try {
+    input = await Deno.open(log);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return false;
+    throw err;
+  }
+  // never leave a truncated log.txt.gz
+  const output = await Deno.open(`${log}.gz.tmp`, {
+    write: true,
+    create: true,
+    truncate: true,
+  });
+  await input.readable
+    .pipeThrough(new CompressionStream("gzip"))
+    .pipeTo(output.writable);
+  await Deno.rename(`${log}.gz.tmp`, `${log}.gz`);
+  await Deno.remove(log);
+  return true;
+}
+
+/**
+ * Restores `log.txt` compressed by `compressLog`, so that it can be appended
+ * to (e.g. when the job is retried). Does nothing if the log is not compressed.
+ */
+export async function decompressLog(dir: string) {
+  const log = path.join(dir, "log.txt");
+  let input: Deno.FsFile;
+  try {
+    input = await Deno.open(`${log}.gz`);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return;
+    throw err;
+  }
+  const output = await Deno.open(`${log}.tmp`, {
+    write: true,
+    create: true,
+    truncate: true,
+  });
+  await input.readable
+    .pipeThrough(new DecompressionStream("gzip"))
+    .pipeTo(output.writable);
+  await Deno.rename(`${log}.tmp`, log);
+  await Deno.remove(`${log}.gz`);
 }
 
-/** A filesystem backed database of jobs and their status. For every job there
- * is a directory where logs might be added. */
+/** A database of jobs and their status, persisted by a JobStore. For every
+ * job there is a directory where logs might be added. */
 export class JobsDataBase {
-  constructor(public jobsDir: string) {
+  /** @internal */
+  private lastIdTime = 0;
+
+  constructor(
+    public jobsDir: string,
+    public readonly store: JobStore = new FileSystemJobStore(jobsDir),
+  ) {
     Deno.mkdirSync(jobsDir, { recursive: true });
   }
 
-  addJob(job: Job | FullUpdateGatherJob) {
-    const status: JobStatus = {
+  /**
+   * Returns a new unique job id: an ISO timestamp followed by the suffix. The
+   * timestamps of the ids returned are strictly increasing, so the ids sort in
+   * the order they were created even within the same millisecond.
+   */
+  newJobId(suffix = ""): string {
+    let time = Math.max(Date.now(), this.lastIdTime + 1);
+    // a job might have been created with that id before a restart
+    while (this.store.get(`${new Date(time).toISOString()}${suffix}`)) time++;
+    this.lastIdTime = time;
+    return `${new Date(time).toISOString()}${suffix}`;
+  }
+
+  /**
+   * Adds the job to the queue, or only records it if it is `skipped`.
+   *
+   * @param payloadHash of the webhook which triggered the job, see
+   * `hasPayloadHash`
+   */
+  addJob(
+    job: Job | FullUpdateGatherJob,
+    status: "queued" | "skipped" = "queued",
+    message?: string,
+    payloadHash?: string,
+  ) {
+    this.createJob(job, status, message, undefined, payloadHash);
+  }
+
+  /**
+   * Whether a job was queued by a webhook with this body (see `payloadHash`)
+   * which has not been pruned yet
+   */
+  hasPayloadHash(payloadHash: string): boolean {
+    return this.store.count({ payloadHash }) > 0;
+  }
+
+  /** Adds the jobs to the queue as children of the `parent` job */
+  addChildJobs(parent: Job | FullUpdateGatherJob, children: Job[]) {
+    for (const child of children) {
+      this.createJob(child, "queued", undefined, parent.id);
+    }
+  }
+
+  /** @internal */
+  private createJob(
+    job: Job | FullUpdateGatherJob,
+    status: "queued" | "skipped",
+    message: string | undefined,
+    parent?: string,
+    payloadHash?: string,
+  ) {
+    const now = new Date().toISOString();
+    const jobStatus: JobStatus = {
       job,
-      status: "pending",
-      message: undefined,
+      status,
+      message: message && redact(message),
       dir: path.join(this.jobsDir, job.id),
+      queuedAt: now,
+      finishedAt: status === "skipped" ? now : undefined,
+      parent,
+      payloadHash,
     };
-    Deno.mkdirSync(status.dir);
-    Deno.writeTextFileSync(
-      path.join(status.dir, "status.json"),
-      JSON.stringify(status, undefined, 2),
-    );
+    Deno.mkdirSync(jobStatus.dir);
+    this.store.create(jobStatus);
   }
 
+  /**
+   * Sets the status and updates the timestamps accordingly. Secrets are
+   * redacted from the message.
+   */
   setStatus(
     job: Job | FullUpdateGatherJob,
-    status: "failed" | "completed" | "pending",
+    status: JobState,
     message?: string,
   ) {
+    const now = new Date().toISOString();
     const jobStatus: JobStatus = {
+      ...this.getJob(job.id),
       job,
       status,
-      message,
+      message: message && redact(message),
       dir: path.join(this.jobsDir, job.id),
     };
+    if (status === "queued") {
+      jobStatus.queuedAt = now;
+      jobStatus.startedAt = undefined;
+      jobStatus.finishedAt = undefined;
+      // allow the job to be leased again
+      this.release(jobStatus);
+    } else if (status === "running") {
+      jobStatus.startedAt = now;
+      jobStatus.finishedAt = undefined;
+    } else {
+      jobStatus.finishedAt = now;
+    }
+    this.writeStatus(jobStatus);
+  }
+
+  /** Records the start of a new attempt to execute the job */
+  startAttempt(job: Job | FullUpdateGatherJob, logOffset: number) {
+    const jobStatus = this.getJob(job.id)!;
+    jobStatus.attempts = [...jobStatus.attempts ?? [], { logOffset }];
+    this.writeStatus(jobStatus);
+  }
+
+  /** Records the error which made the latest attempt fail */
+  failAttempt(job: Job | FullUpdateGatherJob, error: string) {
+    const jobStatus = this.getJob(job.id)!;
+    const latest = jobStatus.attempts?.at(-1);
+    if (latest) latest.error = redact(error);
+    this.writeStatus(jobStatus);
+  }
+
+  /**
+   * Records the outcome of the files reported by the jobHandler, replacing the
+   * results of earlier attempts. Secrets are redacted from the reasons.
+   */
+  setFileResults(
+    job: Job | FullUpdateGatherJob,
+    results: Record<string, FileResult>,
+  ) {
+    const jobStatus = this.getJob(job.id)!;
+    const redacted = Object.fromEntries(
+      Object.entries(results).map(([file, result]) => [
+        file,
+        result.reason === undefined
+          ? result
+          : { ...result, reason: redact(result.reason) },
+      ]),
+    );
     Deno.writeTextFileSync(
-      path.join(jobStatus.dir, "status.json"),
-      JSON.stringify(jobStatus, undefined, 2),
+      path.join(jobStatus.dir, "results.json"),
+      JSON.stringify(redacted, undefined, 2),
     );
+    const counts = { ok: 0, failed: 0, skipped: 0 };
+    for (const { status } of Object.values(results)) counts[status]++;
+    jobStatus.fileResults = counts;
+    this.writeStatus(jobStatus);
+  }
+
+  /**
+   * The outcome of each file reported by the jobHandler in the latest attempt
+   * of the job, by path. Empty if no files were reported.
+   */
+  fileResults(id: string): Record<string, FileResult> {
+    const jobStatus = this.getJob(id);
+    if (!jobStatus) return {};
+    try {
+      return JSON.parse(
+        Deno.readTextFileSync(path.join(jobStatus.dir, "results.json")),
+      );
+    } catch (err) {
+      if (err instanceof Deno.errors.NotFound) return {};
+      throw err;
+    }
+  }
+
+  /** @internal */
+  private writeStatus(jobStatus: JobStatus) {
+    this.store.update(jobStatus);
   }
 
   allJobs(oldestFirst = false, pagination?: [number, number]): JobStatus[] {
-    const jobDirs = [];
-    for (const jobDir of Deno.readDirSync(this.jobsDir)) {
-      jobDirs.push(jobDir);
-    }
-    return jobDirs
-      .filter((entry) => entry.isDirectory)
-      .sort((a, b) =>
-        oldestFirst
-          ? a.name.localeCompare(b.name)
-          : b.name.localeCompare(a.name)
-      )
-      .slice(pagination?.[0], pagination?.[1])
-      .map((jobDir) => {
-        const statusFile = path.join(this.jobsDir, jobDir.name, "status.json");
-        try {
-          return Deno.readTextFileSync(statusFile);
-        } catch (err) {
-          if (err instanceof Deno.errors.NotFound) {
-            console.warn(
-              `No statusfile found at ${statusFile}. Please remove directory.`,
-            );
-            return null;
-          } else if (
-            (err instanceof Deno.errors.NotADirectory) || (typeof err === "object" && err !== null && "code" in err && (err as Record<string, unknown>).code === "ENOTDIR")
-          ) {
-            console.warn(
-              `${statusFile} is not a diretory. Please remove the file.`,
-            );
-            return null;
-          } else {
-            throw err;
+    return this.store.list({
+      oldestFirst,
+      offset: pagination?.[0],
+      limit: pagination && pagination[1] - pagination[0],
+    });
+  }
+
+  /**
+   * The jobs without a parent (newest first), each with its child jobs and
+   * their aggregated progress.
+   *
+   * @param pagination applies to the jobs without a parent
+   * @param repository only include jobs of this source repository
+   */
+  jobTree(
+    pagination?: [number, number],
+    repository?: string,
+  ): JobTreeEntry[] {
+    const jobs = this.store.list({
+      repository,
+      parent: null,
+      offset: pagination?.[0],
+      limit: pagination && pagination[1] - pagination[0],
+    });
+    return this.withChildren(jobs);
+  }
+
+  /**
+   * A page of the jobs matching the query (newest first unless
+   * `query.oldestFirst`). Unless one of the filters `status`, `type`,
+   * `since`, `until`, `file` or `search` is given, only the jobs without a
+   * parent are listed, with their child jobs (see `jobTree`). Otherwise all
+   * matching jobs are listed, without their child jobs.
+   */
+  searchJobs(query: JobQuery): JobSearchResult {
+    const filtered = [
+      query.status,
+      query.type,
+      query.since,
+      query.until,
+      query.file,
+      query.search,
+    ].some((filter) => filter !== undefined);
+    if (!filtered && query.parent === undefined) {
+      query = { ...query, parent: null };
+    }
+    // one more, to know whether there is a next page
+    const jobs = this.store.list({
+      ...query,
+      limit: query.limit === undefined ? undefined : query.limit + 1,
+    });
+    const page = jobs.slice(0, query.limit);
+    return {
+      jobs: filtered ? page.map(withTimings) : this.withChildren(page),
+      total: this.store.count(query),
+      next: jobs.length > page.length ? page.at(-1)?.job.id : undefined,
+    };
+  }
+
+  /**
+   * Adds the child jobs and their progress to the jobs
+   * @internal
+   */
+  private withChildren(jobs: JobStatus[]): JobTreeEntry[] {
+    const children = new Map<string, JobStatus[]>();
+    const childJobs = this.store.list({
+      parent: jobs.map((js) => js.job.id),
+      oldestFirst: true,
+    });
+    for (const js of childJobs) {
+      children.set(js.parent!, [...children.get(js.parent!) ?? [], js]);
+    }
+    return jobs
+      .map((js) => {
+        const childJobs = children.get(js.job.id);
+        return childJobs
+          ? {
+            ...withTimings(js),
+            progress: jobProgress(childJobs),
+            children: childJobs.map(withTimings),
           }
+          : withTimings(js);
+      });
+  }
+
+  /**
+   * The previews of pull requests (see PullRequestJob) grouped by pull
+   * request, the one with the newest preview first.
+   *
+   * @param repository only include pull requests of this source repository
+   */
+  pullRequests(repository?: string): PullRequestEntry[] {
+    const pullRequests = new Map<string, PullRequestEntry>();
+    for (const js of this.store.list({ type: ["pull_request"], repository })) {
+      const job = js.job as PullRequestJob;
+      const key = `${job.repository}#${job.pullRequest.number}`;
+      const entry = pullRequests.get(key);
+      if (entry) {
+        entry.runs.push(withTimings(js));
+      } else {
+        pullRequests.set(key, {
+          repository: job.repository,
+          branch: job.branch,
+          number: job.pullRequest.number,
+          title: job.pullRequest.title,
+          url: job.pullRequest.url,
+          runs: [withTimings(js)],
+        });
+      }
+    }
+    return [...pullRequests.values()];
+  }
+
+  /**
+   * The outcome of the latest finished job (ignoring full_update_gather jobs
+   * and pull request previews), optionally only considering jobs of the given
+   * source repository.
+   */
+  latestResult(repository?: string): "completed" | "failed" | undefined {
+    return this.store.list({
+      status: ["completed", "failed"],
+      type: ["webhook", "update", "full_update", "tag"],
+      repository,
+      limit: 1,
+    })[0]?.status as "completed" | "failed" | undefined;
+  }
+
+  /** Jobs waiting to be executed, oldest first */
+  queuedJobs() {
+    return this.store.list({ status: ["queued"], oldestFirst: true });
+  }
+
+  /**
+   * Claims the oldest queued job which may be executed now and marks it as
+   * running. A job may be executed if it doesn't conflict with any running
+   * job or any job queued before it, so full_update chunk jobs are executed in
+   * parallel while jobs touching the same files keep their order.
+   *
+   * The claim is made through `JobStore.claim`, which succeeds for only one of
+   * several workers competing for the same job.
+   *
+   * @param webhookDebounce webhook jobs queued less than this many ms ago are
+   * not leased yet, as they might still be merged (see `coalesceWebhookJobs`)
+   * @returns the status of the leased job or undefined if there is none
+   */
+  leaseNextJob(workerId: string, webhookDebounce = 0): JobStatus | undefined {
+    const unfinished = this.store.list({
+      status: ["queued", "running"],
+      oldestFirst: true,
+    });
+    const debounceLimit = Date.now() - webhookDebounce;
+    for (const [i, candidate] of unfinished.entries()) {
+      if (candidate.status !== "queued") continue;
+      if (
+        webhookDebounce && jobType(candidate.job) === "webhook" &&
+        Date.parse(candidate.queuedAt ?? "") > debounceLimit
+      ) {
+        continue;
+      }
+      const blocked = unfinished.some((other, j) =>
+        other !== candidate && (j < i || other.status === "running") &&
+        conflicting(candidate, other)
+      );
+      if (blocked || !this.claim(candidate, workerId)) continue;
+      this.setStatus(candidate.job, "running", candidate.message);
+      const leased = this.getJob(candidate.job.id)!;
+      leased.workerId = workerId;
+      this.writeStatus(leased);
+      return leased;
+    }
+  }
+
+  /**
+   * Merges the queued webhook jobs into a single new job spanning from the
+   * earliest `from` to the latest `till`, and marks them as `superseded` (see
+   * `JobStatus.supersededBy`). Only the webhook jobs queued after the last
+   * other job of the branch are merged, as the merged job is queued anew (see
+   * `newJobId`) and earlier ones would thus be moved behind that job.
+   *
+   * @param repository only merge jobs of this source repository
+   * @param branch only merge jobs of this branch
+   *
+   * @returns the merged job and the ids of the jobs it supersedes, undefined
+   * if there were less than two jobs to merge
+   */
+  coalesceWebhookJobs(repository?: string, branch?: string):
+    | { job: WebhookJob; supersedes: string[] }
+    | undefined {
+    // jobs without repository or branch might belong to any
+    const queued = this.queuedJobs().filter((js) =>
+      jobType(js.job) !== "pull_request" &&
+      (repository === undefined ||
+        (js.job.repository ?? repository) === repository) &&
+      (branch === undefined || (js.job.branch ?? branch) === branch)
+    );
+    const lastOther = queued.findLastIndex((js) =>
+      jobType(js.job) !== "webhook"
+    );
+    const candidates = queued.slice(lastOther + 1);
+    if (candidates.length < 2) return undefined;
+    // workers might lease some of them in the meantime
+    const claimed = candidates.filter((js) => this.claim(js, "coalescing"));
+    if (claimed.length < 2) {
+      claimed.forEach((js) => this.release(js));
+      return undefined;
+    }
+    const jobs = claimed.map((js) => js.job as WebhookJob);
+    const first = jobs[0];
+    const last = jobs[jobs.length - 1];
+    const job: WebhookJob = {
+      // e.g. "2024-01-01T00:00:00.000Z org_repo merged", also if one of the
+      // jobs was merged before
+      id: this.newJobId(
+        `${first.id.replace(/^\S+/, "").replace(/ merged$/, "")} merged`,
+      ),
+      from: first.files.from,
+      till: last.files.till,
+      author: last.author,
+      repository: last.repository,
+      branch: last.branch,
+      files: {
+        from: first.files.from,
+        till: last.files.till,
+        ...mergeChanges(jobs.map((j) => j.files)),
+      },
+    };
+    if (jobs.some((j) => j.incomplete)) job.incomplete = true;
+    this.addJob(job);
+    // it has been waiting since the first of the merged jobs was queued
+    const mergedStatus = this.getJob(job.id)!;
+    mergedStatus.queuedAt = claimed[0].queuedAt;
+    this.writeStatus(mergedStatus);
+    for (const superseded of jobs) {
+      this.setStatus(superseded, "superseded", `Superseded by ${job.id}`);
+      const jobStatus = this.getJob(superseded.id)!;
+      jobStatus.supersededBy = job.id;
+      this.writeStatus(jobStatus);
+    }
+    return { job, supersedes: jobs.map((j) => j.id) };
+  }
+
+  /**
+   * Leases the job, returns false if it was leased by someone else
+   * @internal
+   */
+  private claim(jobStatus: JobStatus, workerId: string): boolean {
+    return this.store.claim(jobStatus.job.id, workerId);
+  }
+
+  /** @internal */
+  private release(jobStatus: JobStatus) {
+    this.store.release(jobStatus.job.id);
+  }
+
+  /**
+   * Re-queues the jobs of full updates (the full_update_gather job and its
+   * children) which are still `running`, i.e. the process was stopped while
+   * executing them. The full update then continues with its remaining chunks,
+   * a full_update_gather job which already created its children does not
+   * gather again.
+   *
+   * Must only be called before any worker started executing jobs.
+   *
+   * @returns the ids of the affected jobs
+   */
+  resumeInterruptedJobs(): string[] {
+    const interrupted = this.store.list({
+      status: ["running"],
+      oldestFirst: true,
+    }).filter((js) =>
+      js.parent !== undefined || jobType(js.job) === "full_update_gather"
+    );
+    for (const { job, dir } of interrupted) {
+      const message = "Resumed: GHAct was stopped while the job was running";
+      Deno.writeTextFileSync(
+        path.join(dir, "log.txt"),
+        `=== ${message} ===\n`,
+        { append: true },
+      );
+      this.setStatus(job, "queued", message);
+    }
+    return interrupted.map((js) => js.job.id);
+  }
+
+  /**
+   * Marks jobs which are still `running` (i.e. the process was stopped while
+   * executing them) as failed, so they are neither shown as running forever
+   * nor silently re-run. They can be re-queued via `/jobs/{id}/retry`.
+   *
+   * Must only be called before any worker started executing jobs.
+   *
+   * @returns the ids of the affected jobs
+   */
+  failInterruptedJobs(): string[] {
+    const interrupted = this.store.list({
+      status: ["running"],
+      oldestFirst: true,
+    });
+    for (const { job, dir } of interrupted) {
+      const message =
+        "Interrupted: GHAct was stopped while the job was running";
+      Deno.writeTextFileSync(
+        path.join(dir, "log.txt"),
+        `=== ${message} ===\n`,
+        { append: true },
+      );
+      this.setStatus(job, "failed", message);
+    }
+    return interrupted.map((js) => js.job.id);
+  }
+
+  /**
+   * Removes the jobs not kept by the policy (together with their
+   * directories) and compresses the logs of jobs which finished before
+   * `policy.compressLogsAfterDays`. Jobs which are queued or running, or
+   * whose parent or child jobs are, are never removed.
+   *
+   * @param now the time the ages of the jobs are computed at
+   */
+  async prune(
+    policy: RetentionPolicy,
+    now = Date.now(),
+  ): Promise<PruneResult> {
+    const day = 24 * 60 * 60 * 1000;
+    const finishedBefore = (js: JobStatus, days: number) =>
+      Date.parse(js.finishedAt ?? "") < now - days * day;
+    const unfinished = (js: JobStatus) =>
+      js.status === "queued" || js.status === "running";
+    const { keepLast, keepFailedDays } = policy;
+    // the jobs without parent which might be removed, with their children
+    const candidates = new Map<string, JobStatus>();
+    if (keepLast !== undefined) {
+      for (const js of this.store.list({ parent: null, offset: keepLast })) {
+        candidates.set(js.job.id, js);
+      }
+    }
+    if (keepFailedDays !== undefined) {
+      for (const js of this.store.list({ status: ["failed"] })) {
+        const root = js.parent === undefined ? js : this.store.get(js.parent);
+        if (root) candidates.set(root.job.id, root);
+      }
+    }
+    const removed: string[] = [];
+    const newestFirst = [...candidates.values()].sort((a, b) =>
+      b.job.id.localeCompare(a.job.id)
+    );
+    for (const jobStatus of newestFirst) {
+      const family = [
+        jobStatus,
+        ...this.store.list({ parent: [jobStatus.job.id] }),
+      ];
+      // jobs among the `keepLast` most recent ones are only candidates if
+      // they failed more than `keepFailedDays` ago
+      const kept = family.some((js) =>
+        unfinished(js) ||
+        (js.status === "failed" && keepFailedDays !== undefined &&
+          !finishedBefore(js, keepFailedDays))
+      );
+      if (kept) continue;
+      for (const { job } of family) {
+        this.store.delete(job.id);
+        Deno.removeSync(path.join(this.jobsDir, job.id), {
+          recursive: true,
+        });
+        removed.push(job.id);
+      }
+    }
+    const compressed: string[] = [];
+    if (policy.compressLogsAfterDays !== undefined) {
+      const finished = this.store.list({
+        status: ["completed", "failed", "cancelled", "skipped", "superseded"],
+      });
+      for (const jobStatus of finished) {
+        if (
+          finishedBefore(jobStatus, policy.compressLogsAfterDays) &&
+          await compressLog(path.join(this.jobsDir, jobStatus.job.id))
+        ) {
+          compressed.push(jobStatus.job.id);
         }
-      })
-      .filter(notEmpty)
-      .map((t) => {
-        try {
-          return JSON.parse(t) as JobStatus;
-        } catch (err) {
-          console.warn(`${err} parsing ${t}.`);
-          return null;
-        }
-      })
-      .filter(notEmpty);
+      }
+    }
+    return { removed, compressed };
   }
-  pendingJobs() {
-    return this.allJobs(true).filter((js) => js.status === "pending");
+
+  /** Returns the status of the job with the given id or undefined if there is no such job */
+  getJob(id: string): JobStatus | undefined {
+    // ids come from request urls, they must not be able to escape jobsDir
+    if (id === "" || id === "." || id === ".." || id.includes("/")) {
+      return undefined;
+    }
+    return this.store.get(id);
+  }
+
+  /** Returns the jobs created by the job with the given id, oldest first */
+  childJobs(id: string): JobStatus[] {
+    return this.store.list({ parent: [id], oldestFirst: true });
   }
 }
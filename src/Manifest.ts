@@ -0,0 +1,58 @@
+import { type FileChanges } from "./helpers.ts";
+
+/**
+ * The paths of all files processed so far, persisted as a text file with one
+ * path per line.
+ *
+ * Full updates compare it to the files present in the repository to detect
+ * files which were removed without a job noticing it (e.g. due to history
+ * rewrites or missed webhooks).
+ */
+export class Manifest {
+  constructor(public readonly file: string) {}
+
+  /** The paths of all processed files, empty if nothing was recorded yet */
+  read(): Set<string> {
+    try {
+      return new Set(
+        Deno.readTextFileSync(this.file).split("\n").filter((l) => l !== ""),
+      );
+    } catch (err) {
+      if (err instanceof Deno.errors.NotFound) return new Set();
+      throw err;
+    }
+  }
+
+  /**
+   * Records the files as processed (added or modified) or as no longer
+   * present (removed).
+   *
+   * Concurrent updates (also from other workers) are serialized.
+   */
+  async update(changes: Partial<FileChanges>) {
+    const lockFile = await Deno.open(`${this.file}.lock`, {
+      create: true,
+      write: true,
+    });
+    try {
+      await lockFile.lock(true);
+      const files = this.read();
+      changes.added?.forEach((f) => files.add(f));
+      changes.modified?.forEach((f) => files.add(f));
+      changes.removed?.forEach((f) => files.delete(f));
+      changes.renamed?.forEach(({ from, to }) => {
+        files.delete(from);
+        files.add(to);
+      });
+      changes.copied?.forEach(({ to }) => files.add(to));
+      // write to a temporary file first to never leave a truncated manifest
+      Deno.writeTextFileSync(
+        `${this.file}.tmp`,
+        [...files].map((f) => f + "\n").join(""),
+      );
+      Deno.renameSync(`${this.file}.tmp`, this.file);
+    } finally {
+      lockFile.close(); // also releases the lock
+    }
+  }
+}
@@ -1,55 +1,87 @@
+import { path } from "./deps.ts";
+import {
+  type ChangeSummary,
+  type Config,
+  type FullUpdateGatherJob,
+  type Job,
+  type JobType,
+  type RetryPolicy,
+  type SourceRepository,
+} from "../mod.ts";
+import { createBadge } from "./log.ts";
+import { type JobsDataBase } from "./JobsDataBase.ts";
+
 const encoder = new TextEncoder();
 
-export async function verifySignature(req: Request, WEBHOOK_SECRET: string) {
-  const header = req.headers.get("x-hub-signature-256") ||
-    req.headers.get("X-Forgejo-Signature");
-  if (!header) {
-    throw new Error("No x-hub-signature-256 or X-Forgejo-Signature");
+/**
+ * Verifies the signature of a webhook over the raw bytes of its body, as sent
+ * by GitHub (`X-Hub-Signature-256: sha256=<hex>`), Gitea (`X-Gitea-Signature`)
+ * and Forgejo (`X-Forgejo-Signature`: `<hex>`, HMAC-SHA256 as well) and
+ * Bitbucket Server (`X-Hub-Signature: sha256=<hex>`), or the secret token sent
+ * by GitLab (`X-Gitlab-Token`).
+ *
+ * @returns false if there is no such header or it doesn't match
+ */
+export async function verifySignature(
+  headers: Headers,
+  body: BufferSource,
+  secret: string,
+): Promise<boolean> {
+  const gitlabToken = headers.get("X-Gitlab-Token");
+  if (gitlabToken !== null) {
+    return timingSafeEqual(encoder.encode(gitlabToken), encoder.encode(secret));
   }
-  const payload = JSON.stringify(req.body);
-  const parts = header.split("=");
-  const sigHex = parts[1];
-
-  const algorithm = { name: "HMAC", hash: { name: "SHA-256" } };
+  const signature =
+    headers.get("X-Hub-Signature-256")?.replace(/^sha256=/, "") ??
+      headers.get("X-Forgejo-Signature") ??
+      headers.get("X-Gitea-Signature") ??
+      headers.get("X-Hub-Signature")?.match(/^sha256=(.*)$/)?.[1];
+  if (!signature) return false;
 
-  const keyBytes = encoder.encode(WEBHOOK_SECRET);
-  const extractable = false;
   const key = await crypto.subtle.importKey(
     "raw",
-    keyBytes,
-    algorithm,
-    extractable,
-    ["sign", "verify"],
+    encoder.encode(secret),
+    { name: "HMAC", hash: { name: "SHA-256" } },
+    false,
+    ["sign"],
   );
-
-  const sigBytes = hexToBytes(sigHex);
-  const dataBytes = encoder.encode(payload);
-  const equal = await crypto.subtle.verify(
-    algorithm.name,
-    key,
-    sigBytes,
-    dataBytes,
+  const expected = new Uint8Array(
+    await crypto.subtle.sign("HMAC", key, body),
+  );
+  const expectedHex = Array.from(
+    expected,
+    (b) => b.toString(16).padStart(2, "0"),
+  ).join("");
+  return timingSafeEqual(
+    encoder.encode(signature.toLowerCase()),
+    encoder.encode(expectedHex),
   );
-
-  return equal;
 }
 
-function hexToBytes(hex: string) {
-  const len = hex.length / 2;
-  const bytes = new Uint8Array(len);
-
-  let index = 0;
-  for (let i = 0; i < hex.length; i += 2) {
-    const c = hex.slice(i, i + 2);
-    const b = parseInt(c, 16);
-    bytes[index] = b;
-    index += 1;
-  }
+/**
+ * The SHA-256 of the raw body of a webhook as hex, to recognize replayed
+ * deliveries also if their (unsigned) delivery ID header was changed.
+ */
+export async function payloadHash(body: BufferSource): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", body));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
 
-  return bytes;
+/**
+ * Compares the bytes in constant time (for equal lengths), so that timing
+ * doesn't reveal how much of a guessed signature is correct.
+ */
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a[i] ^ b[i];
+  return difference === 0;
 }
 
-export function verifyBasicAuth(req: Request, expectedPassword: string): boolean {
+export function verifyBasicAuth(
+  req: Request,
+  expectedPassword: string,
+): boolean {
   const authHeader = req.headers.get("Authorization");
   if (!authHeader || !authHeader.startsWith("Basic ")) {
     return false;
@@ -59,9 +91,338 @@ export function verifyBasicAuth(req: Request, expectedPassword: string): boolean
   try {
     const credentials = atob(base64Credentials);
     const [username, password] = credentials.split(":");
-    
+
     return username === "admin" && password === expectedPassword;
   } catch {
     return false;
   }
 }
+
+/**
+ * Whether a failed attempt should be retried according to the policy: if
+ * `retryableErrors` is set, the error message must match one of the patterns.
+ */
+export function isRetryable(policy: RetryPolicy, error: unknown): boolean {
+  if (!policy.retryableErrors) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return policy.retryableErrors.some((pattern) =>
+    new RegExp(pattern).test(message)
+  );
+}
+
+/**
+ * Delay in milliseconds before the next attempt, doubling with every failed
+ * attempt (starting with 1) and capped at `maxDelay`.
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const initialDelay = policy.initialDelay ?? 1000;
+  const maxDelay = policy.maxDelay ?? 60_000;
+  return Math.min(initialDelay * 2 ** (attempt - 1), maxDelay);
+}
+
+/** Resolves after `ms` milliseconds, rejects with the abort reason if the signal is aborted before. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * Settles like the promise, or rejects with the abort reason as soon as the
+ * signal is aborted, whichever happens first.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+}
+
+/** Determines the type of the job from its shape */
+export function jobType(job: Job | FullUpdateGatherJob): JobType {
+  if ("type" in job) return job.type;
+  if (!("files" in job)) return "update";
+  return "from" in job.files ? "webhook" : "full_update";
+}
+
+/**
+ * The files the job (potentially) touches, undefined if these are not known
+ * in advance (i.e. the job might touch any file). Given a ChangeSummary, the
+ * files it lists as changed.
+ */
+export function touchedFiles(changes: FileChanges): string[];
+export function touchedFiles(
+  job: Job | FullUpdateGatherJob,
+): string[] | undefined;
+export function touchedFiles(
+  jobOrChanges: Job | FullUpdateGatherJob | FileChanges,
+): string[] | undefined {
+  if ("added" in jobOrChanges) {
+    return [
+      ...jobOrChanges.added,
+      ...jobOrChanges.modified,
+      ...jobOrChanges.removed,
+      ...(jobOrChanges.renamed ?? []).flatMap(({ from, to }) => [from, to]),
+      ...(jobOrChanges.copied ?? []).map(({ to }) => to),
+    ];
+  }
+  const job = jobOrChanges;
+  if (!("files" in job) || !job.files) return undefined;
+  // the actual changes are only known once the worker recomputed them
+  if ("incomplete" in job && job.incomplete) return undefined;
+  if ("from" in job.files) return touchedFiles(job.files);
+  // chunks queued by earlier versions have no `removed`
+  return [...job.files.modified, ...(job.files.removed ?? [])];
+}
+
+/** The lists of changed files of a ChangeSummary */
+export type FileChanges = Pick<
+  ChangeSummary,
+  "added" | "removed" | "modified" | "typeChanged" | "renamed" | "copied"
+>;
+
+/**
+ * Combines consecutive changes (oldest first) into the equivalent single
+ * change, e.g. a file added and then modified is added, a file added and then
+ * removed is dropped and a file removed and then added again is modified.
+ *
+ * Within one element of `changes` files are considered to be added, then
+ * modified, then removed.
+ */
+export function mergeChanges(changes: FileChanges[]): FileChanges {
+  // whether the file existed before the first change and exists after the last
+  const files = new Map<string, { before: boolean; after: boolean }>();
+  const apply = (file: string, op: keyof FileChanges) => {
+    const state = files.get(file) ?? { before: op !== "added", after: false };
+    state.after = op !== "removed";
+    files.set(file, state);
+  };
+  for (const change of changes) {
+    change.added.forEach((f) => apply(f, "added"));
+    change.modified.forEach((f) => apply(f, "modified"));
+    change.removed.forEach((f) => apply(f, "removed"));
+  }
+  const result: FileChanges = { added: [], removed: [], modified: [] };
+  for (const [file, { before, after }] of files) {
+    if (before && after) result.modified.push(file);
+    else if (after) result.added.push(file);
+    else if (before) result.removed.push(file);
+  }
+  return result;
+}
+
+/** Whether `config.include` or `config.exclude` is set */
+export function hasPathFilter(config: Pick<Config, "include" | "exclude">) {
+  return config.include !== undefined || config.exclude !== undefined;
+}
+
+/**
+ * Returns a function which tests whether a path (relative to the repository
+ * root, without leading slash) matches `config.include` (if set) and does not
+ * match `config.exclude`.
+ */
+export function createPathFilter(
+  config: Pick<Config, "include" | "exclude">,
+): (file: string) => boolean {
+  const toRegExp = (glob: string) =>
+    path.globToRegExp(glob, { extended: true, globstar: true });
+  const include = config.include?.map(toRegExp);
+  const exclude = config.exclude?.map(toRegExp) ?? [];
+  return (file) =>
+    (!include || include.some((r) => r.test(file))) &&
+    !exclude.some((r) => r.test(file));
+}
+
+/**
+ * Applies the filter to all lists of changed files. A file renamed from a path
+ * not passing the filter is added, one renamed to such a path is removed, the
+ * same goes for copies.
+ */
+export function filterChanges<T extends FileChanges>(
+  changes: T,
+  filter: (file: string) => boolean,
+): T {
+  const result: T = {
+    ...changes,
+    added: changes.added.filter(filter),
+    removed: changes.removed.filter(filter),
+    modified: changes.modified.filter(filter),
+  };
+  if (changes.typeChanged) {
+    result.typeChanged = changes.typeChanged.filter(filter);
+  }
+  if (changes.renamed) {
+    result.renamed = changes.renamed.filter(({ from, to }) => {
+      if (filter(from) && filter(to)) return true;
+      if (filter(to)) result.added.push(to);
+      else if (filter(from)) result.removed.push(from);
+      return false;
+    });
+  }
+  if (changes.copied) {
+    result.copied = changes.copied.filter(({ from, to }) => {
+      if (filter(from) && filter(to)) return true;
+      if (filter(to)) result.added.push(to);
+      return false;
+    });
+  }
+  return result;
+}
+
+/** Whether any file was added, removed, modified, renamed or copied */
+export function hasChanges(changes: FileChanges) {
+  return changes.added.length > 0 || changes.removed.length > 0 ||
+    changes.modified.length > 0 || (changes.renamed?.length ?? 0) > 0 ||
+    (changes.copied?.length ?? 0) > 0;
+}
+
+/**
+ * The configured source repositories: `config.sourceRepositories` or the one
+ * described by `config.sourceRepository`, `config.sourceRepositoryUri` and
+ * `config.sourceBranch`.
+ */
+export function sourceRepositories(config: Config): SourceRepository[] {
+  if (config.sourceRepositories) return config.sourceRepositories;
+  if (
+    !config.sourceRepository || !config.sourceRepositoryUri ||
+    !config.sourceBranch
+  ) {
+    throw new Error(
+      "config.sourceRepositories or config.sourceRepository, config.sourceRepositoryUri and config.sourceBranch must be set",
+    );
+  }
+  return [{
+    name: config.sourceRepository,
+    uri: config.sourceRepositoryUri,
+    branch: config.sourceBranch,
+    branches: config.sourceBranches,
+    tags: config.sourceTags,
+  }];
+}
+
+/**
+ * Returns a function which tests whether pushes to the branch are processed,
+ * i.e. whether it matches `repository.branches` (or is `repository.branch` if
+ * that is not set).
+ */
+export function createBranchFilter(
+  repository: SourceRepository,
+): (branch: string) => boolean {
+  const patterns = (repository.branches ?? [repository.branch]).map((glob) =>
+    path.globToRegExp(glob, { extended: true, globstar: true })
+  );
+  return (branch) => patterns.some((r) => r.test(branch));
+}
+
+/**
+ * The repository (or branch or tag) name with `/` replaced, for use in job
+ * ids. Not unique (e.g. for `feature/a` and `feature_a`), see `dirName`.
+ */
+export function repositorySlug(name: string) {
+  return name.replaceAll("/", "_");
+}
+
+/**
+ * The repository (or branch) name encoded for use as the name of a single
+ * directory (with `encodeURIComponent`), different names give different
+ * directories.
+ */
+export function dirName(name: string) {
+  return encodeURIComponent(name);
+}
+
+/**
+ * Directory for the data of the source repository: its checkout (in
+ * `repository`), `manifest.txt` and `status.svg`.
+ *
+ * This is `config.workDir` itself unless `config.sourceRepositories` is set.
+ */
+export function repositoryDir(config: Config, name: string) {
+  return config.sourceRepositories
+    ? `${config.workDir}/repositories/${dirName(name)}`
+    : config.workDir;
+}
+
+/**
+ * Returns a function which tests whether a TagJob is queued for the tag, i.e.
+ * whether it matches `repository.tags`.
+ */
+export function createTagFilter(
+  repository: SourceRepository,
+): (tag: string) => boolean {
+  const patterns = (repository.tags ?? []).map((glob) =>
+    path.globToRegExp(glob, { extended: true, globstar: true })
+  );
+  return (tag) => patterns.some((r) => r.test(tag));
+}
+
+/**
+ * Directory for the checkout (in `repository`) and `manifest.txt` of the branch
+ * of the source repository: `repositoryDir` for its default branch,
+ * `${repositoryDir}/branches/${dirName(branch)}` for others.
+ */
+export function branchDir(
+  config: Config,
+  repository: SourceRepository,
+  branch: string,
+) {
+  const dir = repositoryDir(config, repository.name);
+  return branch === repository.branch
+    ? dir
+    : `${dir}/branches/${dirName(branch)}`;
+}
+
+/**
+ * Writes the status badges based on the latest finished job: one per source
+ * repository (if `config.sourceRepositories` is set) and the combined one in
+ * `${config.workDir}/status.svg`, which shows "Failed" if the latest job of
+ * any repository failed.
+ */
+export function updateBadges(config: Config, db: JobsDataBase) {
+  const badge = (result?: "completed" | "failed") =>
+    result === "failed" ? "Failed" : result === "completed" ? "OK" : "Unknown";
+  if (!config.sourceRepositories) {
+    createBadge(badge(db.latestResult()), config.workDir, config.title);
+    return;
+  }
+  const results = config.sourceRepositories.map((repository) => {
+    const result = db.latestResult(repository.name);
+    const dir = repositoryDir(config, repository.name);
+    Deno.mkdirSync(dir, { recursive: true });
+    createBadge(badge(result), dir, repository.name);
+    return result;
+  });
+  createBadge(
+    badge(
+      results.includes("failed")
+        ? "failed"
+        : results.includes("completed")
+        ? "completed"
+        : undefined,
+    ),
+    config.workDir,
+    config.title,
+  );
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values. Also used
+ * client-side by the index page, so it must be self-contained.
+ */
+export function escapeHtml(text: string): string {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;").replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
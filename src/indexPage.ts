@@ -1,13 +1,136 @@
-import { type JobsDataBase } from "./JobsDataBase.ts";
+import { type Config } from "../mod.ts";
+import { escapeHtml } from "./helpers.ts";
+import {
+  type JobsDataBase,
+  type JobTreeEntry,
+  type PullRequestEntry,
+  type TimedJobStatus,
+} from "./JobsDataBase.ts";
 
+// also used client-side (see below), so it must be self-contained
+export function formatDuration(ms?: number) {
+  if (ms === undefined || ms === null) return "";
+  if (ms < 1000) return `${ms}ms`;
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${s % 60}s`;
+  return `${Math.floor(s / 3600)}h ${Math.floor(s / 60) % 60}m`;
+}
+
+// also used client-side (see below), so it must be self-contained
+function isPullRequestJob(jobStatus: TimedJobStatus) {
+  return "type" in jobStatus.job && jobStatus.job.type === "pull_request";
+}
+
+// also used client-side (see below), so it may only use formatDuration and
+// escapeHtml. Every value from a job or webhook must be escaped.
+function jobRows(jobStatus: JobTreeEntry, attributes = "") {
+  // the logs of unfinished jobs can be followed live
+  const follow = (js: TimedJobStatus) =>
+    js.status === "queued" || js.status === "running"
+      ? ` <button class="follow" data-job="${
+        encodeURIComponent(js.job.id)
+      }">follow</button>`
+      : "";
+  const row = (js: TimedJobStatus, attributes: string, details: string) =>
+    `<tr class="${js.status}" ${attributes}><td><a href="jobs/${
+      encodeURIComponent(js.job.id)
+    }">${
+      escapeHtml(js.job.id)
+    }</a></td><td>${js.status}</td><td>${details}</td><td><a href="${
+      escapeHtml(js.dir)
+    }/log.txt">${escapeHtml(js.dir)}/log.txt</a>${follow(js)}</td><td>${
+      escapeHtml(js.job.from ?? "")
+    }</td><td>${escapeHtml(js.job.till ?? "")}</td><td>${
+      formatDuration(js.queueWait)
+    }</td><td>${formatDuration(js.duration)}</td></tr>`;
+  const progress = jobStatus.progress;
+  if (!progress || !jobStatus.children) {
+    return row(jobStatus, attributes, escapeHtml(jobStatus.message || ""));
+  }
+  const id = encodeURIComponent(jobStatus.job.id);
+  const summary =
+    `${progress.completed} of ${progress.total} jobs completed (${progress.processedFiles} of ${progress.files} files)` +
+    (progress.failed ? `, ${progress.failed} failed` : "") +
+    (progress.cancelled ? `, ${progress.cancelled} cancelled` : "");
+  return [
+    row(
+      jobStatus,
+      attributes,
+      [
+        escapeHtml(jobStatus.message || ""),
+        summary,
+        `<button class="toggle" data-job="${id}">show jobs</button>`,
+      ].filter((part) => part).join(" "),
+    ),
+    ...jobStatus.children.map((child) =>
+      row(child, `data-parent="${id}" hidden`, escapeHtml(child.message || ""))
+    ),
+  ].join("\n");
+}
+
+/** The latest preview of the pull request, earlier ones are hidden */
+function pullRequestRows(pullRequest: PullRequestEntry) {
+  const id = encodeURIComponent(
+    `${pullRequest.repository ?? ""}#${pullRequest.number}`,
+  );
+  const title = `#${pullRequest.number} ${escapeHtml(pullRequest.title)}`;
+  const [latest, ...earlier] = pullRequest.runs;
+  return [
+    `<tr><th colspan="8">${
+      pullRequest.url
+        ? `<a href="${escapeHtml(pullRequest.url)}">${title}</a>`
+        : title
+    } (${
+      [pullRequest.repository, pullRequest.branch].filter((part) => part)
+        .map((part) => escapeHtml(part!)).join(" ")
+    }) ${
+      earlier.length
+        ? `<button class="toggle" data-job="${id}">show ${earlier.length} earlier previews</button>`
+        : ""
+    }</th></tr>`,
+    jobRows(latest),
+    ...earlier.map((run) => jobRows(run, `data-parent="${id}" hidden`)),
+  ].join("\n");
+}
+
+/**
+ * @param repository only show the jobs of this source repository
+ */
 export function indexPage(
-  title: string,
-  description: string,
+  config: Config,
   jobsDB: JobsDataBase,
+  repository?: string,
 ) {
-  const jobsTable = jobsDB.allJobs(false, [0, 200]).map((job) =>
-    `<tr class="${job.status}"><td>${job.job.id}</td><td>${job.status}</td><td>${job.message || ""}</td><td><a href="${job.dir}/log.txt">${job.dir}/log.txt</a></td><td>${job.job.from}</td><td>${job.job.till}</td></tr>`
-  );
+  const { title, description } = config;
+  // pull request previews are shown separately, grouped by pull request
+  const jobsTable = jobsDB.jobTree([0, 200], repository)
+    .filter((js) => !isPullRequestJob(js))
+    .map((js) => jobRows(js));
+  const pullRequests = jobsDB.pullRequests(repository);
+  const pullRequestsTable = pullRequests.length
+    ? `<h2>Pull Request Previews</h2>
+  <table id="pullRequestsTable">
+    <tr><th>Job ID</th><th>Status</th><th>Details</th><th>Log</th><th>From</th><th>Till</th><th>Queue Wait</th><th>Duration</th></tr>
+    ${pullRequests.map(pullRequestRows).join("\n")}
+  </table>`
+    : "";
+  const query = repository === undefined
+    ? ""
+    : `repository=${encodeURIComponent(repository)}`;
+  // links to the job lists of the individual repositories
+  const repositoryLinks = config.sourceRepositories
+    ? `<p>${
+      [
+        `<a href="?">All repositories</a>`,
+        ...config.sourceRepositories.map(({ name }) =>
+          `<a href="?repository=${encodeURIComponent(name)}">${
+            escapeHtml(name)
+          }</a>`
+        ),
+      ].join(" | ")
+    }</p>`
+    : "";
   return (`
 <!DOCTYPE html>
 <html>
@@ -27,29 +150,81 @@ export function indexPage(
       padding: 2px 4px;
     }
     .failed { background: #fcc; }
-    .pending { background: #cef; }
+    .queued { background: #cef; }
+    .running { background: #ffc; }
+    .skipped, .superseded { color: #666; }
+    .cancelled { background: #eee; }
+    tr[data-parent] td:first-child { padding-left: 2em; }
+    #logLines { max-height: 30em; overflow: auto; background: #eee; }
     </style>
 </head>
 
 <body>
   <h1>${title}</h1>
   <p>${description}</p>
+  ${repositoryLinks}
   <table id="jobsTable">
-    <tr><th>Job ID</th><th>Status</th><th>Details</th><th>Log</th><th>From</th><th>Till</th></tr>
+    <tr><th>Job ID</th><th>Status</th><th>Details</th><th>Log</th><th>From</th><th>Till</th><th>Queue Wait</th><th>Duration</th></tr>
     ${jobsTable.join("\n")}
   </table>
   <button id="loadall">Load All</button>
+  ${pullRequestsTable}
+  <section id="logView" hidden>
+    <h2>Log of <span id="logJob"></span> <button id="closeLog">close</button></h2>
+    <pre id="logLines"></pre>
+  </section>
   <script>
+  const formatDuration = ${formatDuration.toString()};
+  const escapeHtml = ${escapeHtml.toString()};
+  const jobRows = ${jobRows.toString()};
+  const isPullRequestJob = ${isPullRequestJob.toString()};
+  let logSource;
+  function hideLog() {
+    logSource?.close();
+    logView.hidden = true;
+  }
+  // tails the log, the EventSource resumes with Last-Event-ID after reconnecting
+  function followLog(job) {
+    logSource?.close();
+    logJob.textContent = decodeURIComponent(job);
+    logLines.textContent = "";
+    logView.hidden = false;
+    logSource = new EventSource(\`jobs/\${job}/log/stream\`);
+    logSource.addEventListener("message", (e) => {
+      const atBottom =
+        logLines.scrollTop + logLines.clientHeight >= logLines.scrollHeight - 1;
+      logLines.append(e.data + "\\n");
+      if (atBottom) logLines.scrollTop = logLines.scrollHeight;
+    });
+    logSource.addEventListener("end", (e) => {
+      logLines.append(\`=== Job \${e.data} ===\\n\`);
+      logSource.close();
+    });
+  }
+  closeLog.addEventListener("click", hideLog);
+  document.addEventListener("click", (e) => {
+    if (e.target.classList.contains("follow")) {
+      followLog(e.target.dataset.job);
+      return;
+    }
+    if (!e.target.classList.contains("toggle")) return;
+    const table = e.target.closest("table");
+    const rows = table.querySelectorAll(\`tr[data-parent="\${e.target.dataset.job}"]\`);
+    const show = e.target.textContent.startsWith("show");
+    rows.forEach((row) => row.hidden = !show);
+    e.target.textContent = show
+      ? e.target.textContent.replace("show", "hide")
+      : e.target.textContent.replace("hide", "show");
+  });
   const button = document.getElementById("loadall");
   button.addEventListener("click", async () => {
     button.setAttribute("disabled", true);
-    const response = await fetch("jobs.json?from=201&till=-1");
+    const response = await fetch("jobs.json?from=201&till=-1${
+    query ? "&" + query : ""
+  }");
     const jobs = await response.json();
-    for (const jobStatus of jobs) {
-        const row = document.createElement("tr");
-        jobsTable.appendChild(row);
-        row.classList.add(jobStatus.status);
-        row.innerHTML = \`<td>\${jobStatus.job.id}</td><td>\${jobStatus.status}</td><td>\${jobStatus.message || ""}</td><td><a href="\${jobStatus.dir}/log.txt">\${jobStatus.dir}/log.txt</a></td><td>\${jobStatus.job.from}</td><td>\${jobStatus.job.till}</td>\`;
+    for (const jobStatus of jobs.filter((js) => !isPullRequestJob(js))) {
+        jobsTable.insertAdjacentHTML("beforeend", jobRows(jobStatus));
     }
     button.parentElement.removeChild(button);
   });
@@ -0,0 +1,175 @@
+import { type Config, type FileResult } from "../mod.ts";
+import { escapeHtml, jobType } from "./helpers.ts";
+import { formatDuration } from "./indexPage.ts";
+import { type JobStatus, withTimings } from "./JobsDataBase.ts";
+
+/** @internal */
+const FILE_RESULT_ORDER: FileResult["status"][] = ["failed", "skipped", "ok"];
+
+/** @internal */
+function jobLink(id: string) {
+  return `<a href="/jobs/${encodeURIComponent(id)}">${escapeHtml(id)}</a>`;
+}
+
+/**
+ * The details of a job: its status, attempts and the results of its files (as
+ * reported by the jobHandler), with its log followed live while it is
+ * unfinished and buttons to cancel or retry it.
+ */
+export function jobPage(
+  config: Config,
+  jobStatus: JobStatus,
+  fileResults: Record<string, FileResult>,
+) {
+  const { title } = config;
+  const js = withTimings(jobStatus);
+  const job = js.job;
+  const id = encodeURIComponent(job.id);
+  const unfinished = js.status === "queued" || js.status === "running";
+  const details: [string, string | undefined][] = [
+    ["Status", js.status],
+    ["Message", js.message && escapeHtml(js.message)],
+    ["Type", jobType(job)],
+    ["Repository", job.repository && escapeHtml(job.repository)],
+    ["Branch", job.branch && escapeHtml(job.branch)],
+    ["From", job.from && escapeHtml(job.from)],
+    ["Till", job.till && escapeHtml(job.till)],
+    ["Parent", js.parent && jobLink(js.parent)],
+    ["Retry of", "retryOf" in job && job.retryOf ? jobLink(job.retryOf) : ""],
+    ["Superseded by", js.supersededBy && jobLink(js.supersededBy)],
+    ["Queued at", js.queuedAt],
+    ["Started at", js.startedAt],
+    ["Finished at", js.finishedAt],
+    ["Queue Wait", formatDuration(js.queueWait)],
+    ["Duration", formatDuration(js.duration)],
+    [
+      "Log",
+      `<a href="${escapeHtml(js.dir)}/log.txt">${
+        escapeHtml(js.dir)
+      }/log.txt</a>`,
+    ],
+  ];
+  const attempts = js.attempts?.length
+    ? `<h2>Attempts</h2>
+  <table>
+    <tr><th>Attempt</th><th>Log Offset</th><th>Error</th></tr>
+    ${
+      js.attempts.map((attempt, i) =>
+        `<tr><td>${i + 1}</td><td>${attempt.logOffset}</td><td>${
+          escapeHtml(attempt.error ?? "")
+        }</td></tr>`
+      ).join("\n")
+    }
+  </table>`
+    : "";
+  const files = Object.entries(fileResults).sort(([a, ra], [b, rb]) =>
+    FILE_RESULT_ORDER.indexOf(ra.status) -
+      FILE_RESULT_ORDER.indexOf(rb.status) || a.localeCompare(b)
+  );
+  const failedFiles = files.filter(([, r]) => r.status === "failed").length;
+  const filesTable = files.length
+    ? `<h2>Files</h2>
+  <p>${
+      FILE_RESULT_ORDER.map((status) =>
+        `${files.filter(([, r]) => r.status === status).length} ${status}`
+      ).join(", ")
+    }</p>
+  <table>
+    <tr><th>File</th><th>Result</th><th>Reason</th></tr>
+    ${
+      files.map(([file, result]) =>
+        `<tr class="${result.status}"><td>${
+          escapeHtml(file)
+        }</td><td>${result.status}</td><td>${
+          escapeHtml(result.reason ?? "")
+        }</td></tr>`
+      ).join("\n")
+    }
+  </table>`
+    : "";
+  const actions = [
+    unfinished ? `<button data-action="cancel">Cancel</button>` : "",
+    js.status === "failed" ? `<button data-action="retry">Retry</button>` : "",
+    js.status === "failed" && failedFiles
+      ? `<button data-action="retry-failed">Retry only the ${failedFiles} failed files</button>`
+      : "",
+  ].filter((button) => button);
+  return (`
+<!DOCTYPE html>
+<html>
+<head>
+    <meta http-equiv="X-UA-Compatible" content="IE=edge" />
+    <title>${escapeHtml(job.id)} - ${title}</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <style>
+    table {
+      border: 2px solid black;
+      border-collapse: collapse;
+    }
+    th,
+    td {
+      border-bottom: 1px solid;
+      border-right: 1px dashed;
+      padding: 2px 4px;
+      text-align: left;
+    }
+    .failed { background: #fcc; }
+    .skipped { color: #666; }
+    #logLines { max-height: 30em; overflow: auto; background: #eee; }
+    </style>
+</head>
+
+<body>
+  <h1><a href="/">${title}</a></h1>
+  <h2>Job ${escapeHtml(job.id)}</h2>
+  <table>
+    ${
+    details.filter(([, value]) => value)
+      .map(([name, value]) => `<tr><th>${name}</th><td>${value}</td></tr>`)
+      .join("\n")
+  }
+  </table>
+  <p id="actions">${actions.join(" ")}</p>
+  ${attempts}
+  ${filesTable}
+  ${
+    unfinished
+      ? `<h2>Log</h2>
+  <pre id="logLines"></pre>`
+      : ""
+  }
+  <script>
+  const job = "${id}";
+  document.getElementById("actions").addEventListener("click", async (e) => {
+    const action = e.target.dataset.action;
+    if (!action) return;
+    e.target.setAttribute("disabled", true);
+    const response = await fetch(\`/jobs/\${job}/\${action}\`, { method: "POST" });
+    if (!response.ok) {
+      alert(\`\${response.status} \${response.statusText}: \${await response.text()}\`);
+      e.target.removeAttribute("disabled");
+    } else if (action === "retry-failed") {
+      const { queued } = await response.json();
+      location.href = \`/jobs/\${encodeURIComponent(queued)}\`;
+    } else {
+      location.reload();
+    }
+  });
+  const logLines = document.getElementById("logLines");
+  if (logLines) {
+    const logSource = new EventSource(\`/jobs/\${job}/log/stream\`);
+    logSource.addEventListener("message", (e) => {
+      const atBottom =
+        logLines.scrollTop + logLines.clientHeight >= logLines.scrollHeight - 1;
+      logLines.append(e.data + "\\n");
+      if (atBottom) logLines.scrollTop = logLines.scrollHeight;
+    });
+    logSource.addEventListener("end", () => {
+      logSource.close();
+      location.reload();
+    });
+  }
+  </script>
+</body>
+</html>`);
+}
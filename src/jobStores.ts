@@ -0,0 +1,479 @@
+import { DatabaseSync } from "node:sqlite";
+import { path } from "./deps.ts";
+import { type JobType } from "../mod.ts";
+import { jobType, touchedFiles } from "./helpers.ts";
+import { type JobState, type JobStatus } from "./JobsDataBase.ts";
+
+/** Selects jobs from a JobStore, all criteria given must match */
+export type JobQuery = {
+  /** Only jobs in one of these states */
+  status?: JobState[];
+  /** Only jobs of these types (see `jobType`) */
+  type?: JobType[];
+  /** Only jobs of this source repository */
+  repository?: string;
+  /**
+   * Only jobs created by one of these jobs (see `JobStatus.parent`), `null`
+   * for only jobs without a parent
+   */
+  parent?: string[] | null;
+  /**
+   * Only jobs queued (for the first time, see `JobsDataBase.newJobId`) at or
+   * after this ISO timestamp
+   */
+  since?: string;
+  /** Only jobs queued before this ISO timestamp */
+  until?: string;
+  /**
+   * Only jobs touching this file (see `touchedFiles`), jobs whose files are not
+   * known in advance never match
+   */
+  file?: string;
+  /** Only jobs whose message contains this text, ignoring case */
+  search?: string;
+  /** Only jobs queued by a webhook with this `JobStatus.payloadHash` */
+  payloadHash?: string;
+  /**
+   * Only jobs listed after the job with this id, to continue a list from the
+   * last job of the previous page
+   */
+  after?: string;
+  /** Jobs are returned newest first (by id) unless set */
+  oldestFirst?: boolean;
+  /** Number of matching jobs to skip */
+  offset?: number;
+  /** Maximum number of jobs to return */
+  limit?: number;
+};
+
+/**
+ * Persists the JobStatus of the jobs for `JobsDataBase`, which implements the
+ * queue on top of it. Ids sort in the order the jobs were queued.
+ *
+ * The directories of the jobs (`JobStatus.dir`, containing their logs) are
+ * created by the JobsDataBase, independently of the store.
+ */
+export interface JobStore {
+  /** Stores the status of a new job, throws if there already is a job with its id */
+  create(jobStatus: JobStatus): void;
+  /** Replaces the stored status of the job */
+  update(jobStatus: JobStatus): void;
+  /** The status of the job with the given id, undefined if there is none */
+  get(id: string): JobStatus | undefined;
+  /** The jobs matching the query */
+  list(query?: JobQuery): JobStatus[];
+  /**
+   * Number of jobs matching the query, ignoring the pagination (`after`,
+   * `offset` and `limit`)
+   */
+  count(query?: JobQuery): number;
+  /**
+   * Marks the job as leased by `owner`, returns false if it already is (i.e.
+   * it was leased by someone else). Must be atomic across workers.
+   */
+  claim(id: string, owner: string): boolean;
+  /** Allows the job to be leased again */
+  release(id: string): void;
+  /** Removes the stored status of the job, if there is any */
+  delete(id: string): void;
+}
+
+/** status.json files written by earlier versions use `pending` for both queued and running jobs */
+function normalize(jobStatus: JobStatus): JobStatus {
+  if ((jobStatus.status as string) === "pending") jobStatus.status = "queued";
+  return jobStatus;
+}
+
+function notEmpty<TValue>(value: TValue | null | undefined): value is TValue {
+  return value !== null && value !== undefined;
+}
+
+function matches(jobStatus: JobStatus, query: JobQuery): boolean {
+  const id = jobStatus.job.id;
+  return (query.status === undefined ||
+    query.status.includes(jobStatus.status)) &&
+    (query.type === undefined || query.type.includes(jobType(jobStatus.job))) &&
+    (query.repository === undefined ||
+      jobStatus.job.repository === query.repository) &&
+    (query.parent === undefined ||
+      (query.parent === null
+        ? jobStatus.parent === undefined
+        : jobStatus.parent !== undefined &&
+          query.parent.includes(jobStatus.parent))) &&
+    (query.since === undefined || id >= query.since) &&
+    (query.until === undefined || id < query.until) &&
+    (query.file === undefined ||
+      (touchedFiles(jobStatus.job)?.includes(query.file) ?? false)) &&
+    (query.search === undefined ||
+      (jobStatus.message ?? "").toLowerCase().includes(
+        query.search.toLowerCase(),
+      )) &&
+    (query.payloadHash === undefined ||
+      jobStatus.payloadHash === query.payloadHash) &&
+    (query.after === undefined ||
+      (query.oldestFirst ? id > query.after : id < query.after));
+}
+
+/**
+ * Stores the status of each job as `status.json` in its directory, a job is
+ * leased by creating a `lease` file there.
+ *
+ * There is no index: every query, whatever its filters, reads and parses the
+ * status of all jobs, which gets slow with many thousand jobs, see
+ * `SqliteJobStore`.
+ */
+export class FileSystemJobStore implements JobStore {
+  constructor(public readonly jobsDir: string) {}
+
+  create(jobStatus: JobStatus) {
+    Deno.writeTextFileSync(
+      path.join(this.jobsDir, jobStatus.job.id, "status.json"),
+      JSON.stringify(jobStatus, undefined, 2),
+      { createNew: true },
+    );
+  }
+
+  update(jobStatus: JobStatus) {
+    Deno.writeTextFileSync(
+      path.join(this.jobsDir, jobStatus.job.id, "status.json"),
+      JSON.stringify(jobStatus, undefined, 2),
+    );
+  }
+
+  get(id: string): JobStatus | undefined {
+    const statusFile = path.join(this.jobsDir, id, "status.json");
+    try {
+      return normalize(
+        JSON.parse(Deno.readTextFileSync(statusFile)) as JobStatus,
+      );
+    } catch (err) {
+      if (err instanceof Deno.errors.NotFound) return undefined;
+      throw err;
+    }
+  }
+
+  list(query: JobQuery = {}): JobStatus[] {
+    const jobDirs = [];
+    for (const jobDir of Deno.readDirSync(this.jobsDir)) {
+      jobDirs.push(jobDir);
+    }
+    const limit = query.limit === undefined
+      ? undefined
+      : (query.offset ?? 0) + query.limit;
+    return jobDirs
+      .filter((entry) => entry.isDirectory)
+      .sort((a, b) =>
+        query.oldestFirst
+          ? a.name.localeCompare(b.name)
+          : b.name.localeCompare(a.name)
+      )
+      .map((jobDir) => {
+        const statusFile = path.join(this.jobsDir, jobDir.name, "status.json");
+        try {
+          return Deno.readTextFileSync(statusFile);
+        } catch (err) {
+          if (err instanceof Deno.errors.NotFound) {
+            console.warn(
+              `No statusfile found at ${statusFile}. Please remove directory.`,
+            );
+            return null;
+          } else if (
+            (err instanceof Deno.errors.NotADirectory) ||
+            (typeof err === "object" && err !== null && "code" in err &&
+              (err as Record<string, unknown>).code === "ENOTDIR")
+          ) {
+            console.warn(
+              `${statusFile} is not a diretory. Please remove the file.`,
+            );
+            return null;
+          } else {
+            throw err;
+          }
+        }
+      })
+      .filter(notEmpty)
+      .map((t) => {
+        try {
+          return normalize(JSON.parse(t) as JobStatus);
+        } catch (err) {
+          console.warn(`${err} parsing ${t}.`);
+          return null;
+        }
+      })
+      .filter(notEmpty)
+      .filter((jobStatus) => matches(jobStatus, query))
+      .slice(query.offset, limit);
+  }
+
+  count(query: JobQuery = {}): number {
+    return this.list({
+      ...query,
+      after: undefined,
+      offset: undefined,
+      limit: undefined,
+    }).length;
+  }
+
+  claim(id: string, owner: string): boolean {
+    try {
+      Deno.writeTextFileSync(path.join(this.jobsDir, id, "lease"), owner, {
+        createNew: true,
+      });
+      return true;
+    } catch (err) {
+      if (err instanceof Deno.errors.AlreadyExists) return false;
+      throw err;
+    }
+  }
+
+  release(id: string) {
+    try {
+      Deno.removeSync(path.join(this.jobsDir, id, "lease"));
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) throw err;
+    }
+  }
+
+  delete(id: string) {
+    try {
+      Deno.removeSync(path.join(this.jobsDir, id, "status.json"));
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) throw err;
+    }
+    this.release(id);
+  }
+}
+
+/**
+ * Stores the status of the jobs in an SQLite database (by default
+ * `jobs.sqlite` in the jobs directory), indexed by state, parent and touched
+ * files, so the queue doesn't need to read all jobs.
+ *
+ * When the database is created, the jobs of an earlier FileSystemJobStore in
+ * the jobs directory are imported. Their `status.json` files are left in
+ * place but no longer updated.
+ */
+export class SqliteJobStore implements JobStore {
+  /** @internal */
+  private readonly db: DatabaseSync;
+
+  constructor(
+    public readonly jobsDir: string,
+    public readonly file = path.join(jobsDir, "jobs.sqlite"),
+  ) {
+    this.db = new DatabaseSync(file);
+    // workers use the database concurrently
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA busy_timeout = 10000");
+    const exists = this.db.prepare(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'jobs'",
+    ).get() !== undefined;
+    if (exists) return;
+    // message, payload_hash and job_files for searching by message, rejecting
+    // replayed webhooks and querying by touched file
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        type TEXT NOT NULL,
+        repository TEXT,
+        parent TEXT,
+        lease TEXT,
+        message TEXT,
+        payload_hash TEXT,
+        json TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS jobs_status ON jobs (status, id);
+      CREATE INDEX IF NOT EXISTS jobs_parent ON jobs (parent, id);
+      CREATE INDEX IF NOT EXISTS jobs_payload_hash ON jobs (payload_hash);
+      CREATE TABLE IF NOT EXISTS job_files (
+        id TEXT NOT NULL,
+        file TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS job_files_file ON job_files (file, id);
+      CREATE INDEX IF NOT EXISTS job_files_id ON job_files (id);
+    `);
+    this.import(new FileSystemJobStore(jobsDir));
+  }
+
+  /** @internal */
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  /**
+   * Inserts or updates the row of the job and the files it touches, to be
+   * called in a transaction
+   * @internal
+   */
+  private write(jobStatus: JobStatus, replace: boolean, lease?: string) {
+    const id = jobStatus.job.id;
+    const values = [
+      jobStatus.status,
+      jobType(jobStatus.job),
+      jobStatus.job.repository ?? null,
+      jobStatus.parent ?? null,
+      jobStatus.message ?? null,
+      jobStatus.payloadHash ?? null,
+      JSON.stringify(jobStatus),
+    ];
+    if (replace) {
+      this.db.prepare(
+        `UPDATE jobs SET status = ?, type = ?, repository = ?, parent = ?,
+           message = ?, payload_hash = ?, json = ?
+         WHERE id = ?`,
+      ).run(...values, id);
+      this.db.prepare("DELETE FROM job_files WHERE id = ?").run(id);
+    } else {
+      this.db.prepare(
+        `INSERT INTO jobs (status, type, repository, parent, message,
+           payload_hash, json, id, lease)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).run(...values, id, lease ?? null);
+    }
+    const insertFile = this.db.prepare(
+      "INSERT INTO job_files (id, file) VALUES (?, ?)",
+    );
+    for (const file of new Set(touchedFiles(jobStatus.job))) {
+      insertFile.run(id, file);
+    }
+  }
+
+  /**
+   * Copies all jobs of the other store into this one, replacing jobs with the
+   * same id. Running jobs stay leased.
+   *
+   * @returns the number of imported jobs
+   */
+  import(store: JobStore): number {
+    const jobs = store.list({ oldestFirst: true });
+    if (jobs.length === 0) return 0;
+    this.transaction(() => {
+      for (const jobStatus of jobs) {
+        this.delete(jobStatus.job.id);
+        this.write(
+          jobStatus,
+          false,
+          jobStatus.status === "running"
+            ? jobStatus.workerId ?? "imported"
+            : undefined,
+        );
+      }
+    });
+    console.log(`Imported ${jobs.length} jobs into ${this.file}`);
+    return jobs.length;
+  }
+
+  create(jobStatus: JobStatus) {
+    this.transaction(() => this.write(jobStatus, false));
+  }
+
+  update(jobStatus: JobStatus) {
+    this.transaction(() => this.write(jobStatus, true));
+  }
+
+  get(id: string): JobStatus | undefined {
+    const row = this.db.prepare("SELECT json FROM jobs WHERE id = ?").get(id);
+    return row ? JSON.parse(row.json as string) as JobStatus : undefined;
+  }
+
+  /**
+   * The WHERE clause selecting the jobs matching the query and its parameters
+   * @internal
+   */
+  private where(
+    query: JobQuery,
+  ): [string, (string | number | null)[]] {
+    const conditions: string[] = [];
+    const parameters: (string | number | null)[] = [];
+    const condition = (sql: string, ...values: string[]) => {
+      conditions.push(sql);
+      parameters.push(...values);
+    };
+    // a single parameter, as their number is limited
+    const oneOf = (column: string, values: string[]) =>
+      condition(
+        `${column} IN (SELECT value FROM json_each(?))`,
+        JSON.stringify(values),
+      );
+    if (query.status) oneOf("status", query.status);
+    if (query.type) oneOf("type", query.type);
+    if (query.repository !== undefined) oneOf("repository", [query.repository]);
+    if (query.parent === null) condition("parent IS NULL");
+    else if (query.parent) oneOf("parent", query.parent);
+    if (query.since !== undefined) condition("id >= ?", query.since);
+    if (query.until !== undefined) condition("id < ?", query.until);
+    if (query.file !== undefined) {
+      condition("id IN (SELECT id FROM job_files WHERE file = ?)", query.file);
+    }
+    if (query.search !== undefined) {
+      condition("instr(lower(message), lower(?)) > 0", query.search);
+    }
+    if (query.payloadHash !== undefined) {
+      condition("payload_hash = ?", query.payloadHash);
+    }
+    if (query.after !== undefined) {
+      condition(query.oldestFirst ? "id > ?" : "id < ?", query.after);
+    }
+    return [
+      conditions.length ? `WHERE ${conditions.join(" AND ")}` : "",
+      parameters,
+    ];
+  }
+
+  list(query: JobQuery = {}): JobStatus[] {
+    const [where, parameters] = this.where(query);
+    const order = query.oldestFirst ? "ASC" : "DESC";
+    return this.db.prepare(
+      `SELECT json FROM jobs ${where} ORDER BY id ${order} LIMIT ? OFFSET ?`,
+    ).all(...parameters, query.limit ?? -1, query.offset ?? 0).map((row) =>
+      JSON.parse(row.json as string)
+    );
+  }
+
+  count(query: JobQuery = {}): number {
+    const [where, parameters] = this.where({ ...query, after: undefined });
+    const { count } = this.db.prepare(
+      `SELECT count(*) AS count FROM jobs ${where}`,
+    ).get(...parameters)!;
+    return count as number;
+  }
+
+  claim(id: string, owner: string): boolean {
+    return this.db.prepare(
+      "UPDATE jobs SET lease = ? WHERE id = ? AND lease IS NULL",
+    ).run(owner, id).changes === 1;
+  }
+
+  release(id: string) {
+    this.db.prepare("UPDATE jobs SET lease = NULL WHERE id = ?").run(id);
+  }
+
+  delete(id: string) {
+    this.db.prepare("DELETE FROM job_files WHERE id = ?").run(id);
+    this.db.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+  }
+
+  close() {
+    this.db.close();
+  }
+}
+
+/** Opens the store configured by `Config.jobStore` */
+export function openJobStore(
+  kind: "filesystem" | "sqlite" | undefined,
+  jobsDir: string,
+): JobStore {
+  Deno.mkdirSync(jobsDir, { recursive: true });
+  return kind === "sqlite"
+    ? new SqliteJobStore(jobsDir)
+    : new FileSystemJobStore(jobsDir);
+}
@@ -3,6 +3,7 @@ import {
   TextLineStream,
   toTransformStream,
 } from "./deps.ts";
+import { redact } from "./secrets.ts";
 
 const colors = {
   OK: "#26a269",
@@ -60,7 +61,9 @@ export const commandOutputToLines = (
   stream: ReadableStream<Uint8Array>,
 ): ReadableStream<string> => {
   return stream
-    .pipeThrough(new TextDecoderStream() as ReadableWritablePair<string, Uint8Array>)
+    .pipeThrough(
+      new TextDecoderStream() as ReadableWritablePair<string, Uint8Array>,
+    )
     .pipeThrough(new TextLineStream())
     .pipeThrough(toTransformStream(async function* (src) {
       for await (const chunk of src) {
@@ -81,6 +84,58 @@ const markCommandOutput = (
     }));
 };
 
+/** Severity of a logged message, from least to most severe */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** @internal */
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/** A line of the JSON-lines log written by a `LogFn` with `jsonFile` */
+export interface LogRecord {
+  /** ISO timestamp of when the message was logged */
+  time: string;
+  level: LogLevel;
+  /** for command output, without the `OUT> ` or `ERR> ` marker */
+  message: string;
+  /** set for output marked by `combineCommandOutputs` */
+  stream?: "stdout" | "stderr";
+}
+
+export interface LogOptions {
+  /** path of a JSON-lines log (one `LogRecord` per line) written in addition */
+  jsonFile?: string;
+  /**
+   * Messages below this level are not printed to the console, they are still
+   * written to the log-files.
+   *
+   * Defaults to `"info"`
+   */
+  consoleLevel?: LogLevel;
+}
+
+/**
+ * @internal
+ *
+ * The message as lines of the text log, each prefixed with the time and,
+ * unless it is `"info"`, the level.
+ */
+function textLine(time: string, message: string, level: LogLevel) {
+  const prefix = level === "info" ? time : `${time} ${level.toUpperCase()}:`;
+  return message.split("\n").map((line) => `${prefix} ${line}`).join("\n");
+}
+
+/** @internal */
+function jsonLine(time: string, line: string, level: LogLevel) {
+  const marker = line.match(/^(OUT|ERR)> /);
+  const record: LogRecord = {
+    time,
+    level,
+    message: marker ? line.slice(marker[0].length) : line,
+  };
+  if (marker) record.stream = marker[1] === "OUT" ? "stdout" : "stderr";
+  return JSON.stringify(record) + "\n";
+}
+
 /**
  * A function of this type is passed to the jobHandler and is used to log messages to the
  * respective logfiles. It will also log the messages to the console.
@@ -90,10 +145,16 @@ const markCommandOutput = (
  * If a ReadableStream is passed (e.g. output from an external command) then it
  * returns a promise which only resolves after the write has finished. In this
  * case you must await the promise.
+ *
+ * Every line is prefixed with the ISO timestamp of when it was logged. The
+ * level defaults to `"info"`. Lines of messages and streams of other levels
+ * are additionally prefixed with their level (e.g. `WARN: `).
+ *
+ * Secrets are redacted from all messages (see `redact`).
  */
 export interface LogFn {
-  (message: string): void;
-  (message: ReadableStream<Uint8Array>): Promise<void>;
+  (message: string, level?: LogLevel): void;
+  (message: ReadableStream<Uint8Array>, level?: LogLevel): Promise<void>;
 }
 
 /**
@@ -105,6 +166,7 @@ export interface LogFn {
  * const log_to_file_and_console = new LogFn("path-to-logfile.txt", true);
  * const log_to_file_only = new LogFn("path-to-logfile.txt", false);
  * const log_to_console_only = new LogFn(false, true);
+ * const log_also_as_json = new LogFn("log.txt", true, { jsonFile: "log.jsonl" });
  * ```
  */
 export class LogFn implements LogFn {
@@ -114,33 +176,230 @@ export class LogFn implements LogFn {
    * @param file path of log-file where messages shuld be appended or false to disable logging to disk
    * @param stdout whether to (simultaneously) log messages to the console/stdout
    */
-  constructor(file: string | false, stdout: boolean) {
-    function log(message: string): void;
-    function log(message: ReadableStream<Uint8Array>): Promise<void>;
+  constructor(
+    file: string | false,
+    stdout: boolean,
+    { jsonFile, consoleLevel = "info" }: LogOptions = {},
+  ) {
+    const toConsole = (level: LogLevel) =>
+      stdout && LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(consoleLevel);
+    function log(message: string, level?: LogLevel): void;
+    function log(
+      message: ReadableStream<Uint8Array>,
+      level?: LogLevel,
+    ): Promise<void>;
     function log(
       message: string | ReadableStream<Uint8Array>,
+      level: LogLevel = "info",
     ): void | Promise<void> {
       if (message instanceof ReadableStream) {
-        const [forFile, forConsole] = message.tee();
-        const toFile = file
-          ? forFile.pipeTo(
-            Deno.openSync(file, { create: true, append: true }).writable,
-          )
-          : Promise.resolve();
-        const toConsole = stdout
-          ? forConsole.pipeTo(Deno.stdout.writable, {
-            preventCancel: true,
-            preventClose: true,
-          })
-          : Promise.resolve();
-        return Promise.allSettled([toFile, toConsole]).then(() => {});
+        // redacted line by line, as a secret might be split across chunks
+        const [forText, forJson] = commandOutputToLines(message)
+          .pipeThrough(toTransformStream(async function* (src) {
+            for await (const line of src) {
+              yield {
+                time: new Date().toISOString(),
+                line: redact(line.replace(/\n$/, "")),
+              };
+            }
+          }))
+          .tee();
+        const [forFile, forConsole] = forText
+          .pipeThrough(toTransformStream(async function* (src) {
+            for await (const { time, line } of src) {
+              yield textLine(time, line, level) + "\n";
+            }
+          }))
+          .pipeThrough(new TextEncoderStream())
+          .tee();
+        const writes = [
+          file
+            ? forFile.pipeTo(
+              Deno.openSync(file, { create: true, append: true }).writable,
+            )
+            : forFile.cancel(),
+          toConsole(level)
+            ? forConsole.pipeTo(Deno.stdout.writable, {
+              preventCancel: true,
+              preventClose: true,
+            })
+            : forConsole.cancel(),
+          jsonFile
+            ? forJson
+              .pipeThrough(toTransformStream(async function* (src) {
+                for await (const { time, line } of src) {
+                  yield jsonLine(time, line, level);
+                }
+              }))
+              .pipeThrough(new TextEncoderStream())
+              .pipeTo(
+                Deno.openSync(jsonFile, { create: true, append: true })
+                  .writable,
+              )
+            : forJson.cancel(),
+        ];
+        return Promise.allSettled(writes).then(() => {});
       } else {
+        message = redact(message);
+        const time = new Date().toISOString();
         if (file) {
-          Deno.writeTextFileSync(file, message + "\n", { append: true });
+          Deno.writeTextFileSync(file, textLine(time, message, level) + "\n", {
+            append: true,
+          });
+        }
+        if (jsonFile) {
+          Deno.writeTextFileSync(jsonFile, jsonLine(time, message, level), {
+            append: true,
+          });
+        }
+        if (toConsole(level)) {
+          const print = {
+            debug: console.debug,
+            info: console.log,
+            warn: console.warn,
+            error: console.error,
+          }[level];
+          print(textLine(time, message, level));
         }
-        if (stdout) console.log(message);
       }
     }
     return log;
   }
 }
+
+/**
+ * Milliseconds between checks for new lines in a followed log
+ * @internal
+ */
+const LOG_POLL_INTERVAL = 500;
+
+/**
+ * Maximum number of bytes read from a followed log at once
+ * @internal
+ */
+const LOG_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * @internal
+ *
+ * Reads up to `size` bytes of the log starting at byte `offset`. Compressed
+ * logs (`log.txt.gz`) are read entirely, missing logs are empty.
+ */
+async function readLog(
+  logFile: string,
+  offset: number,
+  size: number,
+): Promise<Uint8Array> {
+  let file: Deno.FsFile;
+  try {
+    file = await Deno.open(logFile);
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+    try {
+      const compressed = await Deno.open(`${logFile}.gz`);
+      const log = await new Response(
+        compressed.readable.pipeThrough(new DecompressionStream("gzip")),
+      ).bytes();
+      return log.subarray(offset);
+    } catch (err) {
+      if (err instanceof Deno.errors.NotFound) return new Uint8Array();
+      throw err;
+    }
+  }
+  try {
+    await file.seek(offset, Deno.SeekMode.Start);
+    const buffer = new Uint8Array(size);
+    let length = 0;
+    while (length < size) {
+      const read = await file.read(buffer.subarray(length));
+      if (read === null) break;
+      length += read;
+    }
+    return buffer.subarray(0, length);
+  } finally {
+    file.close();
+  }
+}
+
+/**
+ * Follows a log written by a `LogFn` as Server-Sent Events.
+ *
+ * Every line from byte `offset` on is sent as a message whose id is the byte
+ * offset after that line, so a client reconnecting with this id as
+ * `Last-Event-ID` continues where it left off. Once `finished` returns the
+ * final state of the job, the rest of the log and an `end` event with that
+ * state are sent and the stream closes.
+ *
+ * @param finished returns undefined as long as more lines may be written
+ */
+export function followLog(
+  logFile: string,
+  offset: number,
+  finished: () => string | undefined,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let cancelled = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let wake = () => {};
+  // cancelling waits for the log file to be closed
+  let pulling: Promise<void> | undefined;
+  const pull = async (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+  ) => {
+    while (!cancelled) {
+      // checked before reading, lines written before the job finished are never lost
+      const state = finished();
+      const chunk = await readLog(logFile, offset, LOG_CHUNK_SIZE);
+      if (cancelled) return;
+      // a line is only sent once it is complete, unless it never will be or
+      // is too long
+      let end = chunk.lastIndexOf(10) + 1;
+      if (
+        end === 0 && (state !== undefined || chunk.length === LOG_CHUNK_SIZE)
+      ) {
+        end = chunk.length;
+      }
+      if (end > 0) {
+        const events: string[] = [];
+        for (let start = 0; start < end;) {
+          const newline = chunk.indexOf(10, start);
+          const next = newline === -1 || newline >= end ? end : newline + 1;
+          const line = decoder.decode(chunk.subarray(start, next))
+            .replace(/\r?\n$/, "");
+          offset += next - start;
+          start = next;
+          // a carriage return would also end the data field
+          events.push(
+            `id: ${offset}\n${
+              line.split("\r").map((data) => `data: ${data}\n`).join("")
+            }\n`,
+          );
+        }
+        controller.enqueue(encoder.encode(events.join("")));
+        return;
+      }
+      if (state !== undefined) {
+        controller.enqueue(encoder.encode(`event: end\ndata: ${state}\n\n`));
+        controller.close();
+        return;
+      }
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+        timer = setTimeout(resolve, LOG_POLL_INTERVAL);
+      });
+    }
+  };
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulling = pull(controller);
+      return pulling;
+    },
+    async cancel() {
+      cancelled = true;
+      clearTimeout(timer);
+      wake();
+      await pulling?.catch(() => {});
+    },
+  });
+}
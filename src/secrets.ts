@@ -0,0 +1,47 @@
+/**
+ * Values which must never be written to logs or job statuses, as these are
+ * served publicly.
+ * @internal
+ */
+const secrets = new Set<string>();
+
+/**
+ * Matches the credentials in URLs, e.g. `https://token@github.com/...`
+ * @internal
+ */
+const URL_CREDENTIALS = /\b([a-z][a-z0-9+.-]*:\/\/)[^\s/?#@]+@/gi;
+
+/** @internal */
+const REDACTED = "***";
+
+/**
+ * Registers values to be redacted by `redact` (and thus from logs and job
+ * messages) in the current worker or main thread, e.g. credentials used by the
+ * `jobHandler`. Values shorter than 4 characters are ignored, as redacting them
+ * would garble the logs.
+ */
+export function registerSecret(...values: (string | undefined)[]) {
+  for (const value of values) {
+    if (value && value.length >= 4) secrets.add(value);
+  }
+}
+
+registerSecret(
+  Deno.env.get("GHTOKEN"),
+  Deno.env.get("WEBHOOK_SECRET"),
+  Deno.env.get("ADMIN_PASSWORD"),
+);
+
+/**
+ * Replaces the registered secrets (see `registerSecret`, including the
+ * `GHTOKEN`, `WEBHOOK_SECRET` and `ADMIN_PASSWORD` environment variables) and
+ * the credentials in URLs with `***`.
+ */
+export function redact(text: string): string {
+  // a secret might contain a shorter one
+  const longestFirst = [...secrets].sort((a, b) => b.length - a.length);
+  for (const secret of longestFirst) {
+    text = text.replaceAll(secret, REDACTED);
+  }
+  return text.replace(URL_CREDENTIALS, `$1${REDACTED}@`);
+}
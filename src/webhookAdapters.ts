@@ -0,0 +1,269 @@
+import { type FileChanges } from "./helpers.ts";
+
+/**
+ * A push to a source repository, normalised from the webhook payload of a
+ * forge by a WebhookAdapter
+ */
+export type PushEvent = {
+  /** Name of the repository, compared to `SourceRepository.name` */
+  repository: string;
+  /**
+   * e.g. `refs/heads/main` or `refs/tags/v1.0`, pushes without ref are taken to
+   * be pushes to the default branch
+   */
+  ref?: string;
+  /** commit hash before the push, all zeros if the ref was created */
+  before: string;
+  /** commit hash after the push, all zeros if the ref was deleted */
+  after: string;
+  /** whether the ref was deleted */
+  deleted?: boolean;
+  /** whether the push was a force-push, the worker checks this nevertheless */
+  forced?: boolean;
+  /** `Config.title` and `Config.email` are used for missing values */
+  pusher: { name?: string; email?: string };
+  /**
+   * Files changed by each pushed commit, oldest first. Undefined if the forge
+   * doesn't include them in the payload, the changes are then determined by
+   * the worker with git.
+   */
+  commits?: FileChanges[];
+  /** Set if `commits` doesn't list all pushed commits */
+  truncated?: boolean;
+};
+
+/**
+ * Translates the webhooks of a forge, see `GHActServer.addWebhookAdapter`.
+ *
+ * Events are named as by GitHub: `push` events are normalised by `push`,
+ * `ping` events are answered, `release` and `pull_request` events are only
+ * understood in the format of GitHub, Gitea and Forgejo.
+ */
+export interface WebhookAdapter {
+  /** Shown in the logs, e.g. `"GitLab"` */
+  name: string;
+  /**
+   * The event of the request (e.g. `"push"`), undefined if the request doesn't
+   * come from this forge (judging from its headers)
+   */
+  event(headers: Headers): string | undefined;
+  /**
+   * The ID of the delivery, to reject replayed webhooks. Signed webhooks (see
+   * `verifySignature`) without delivery ID are rejected.
+   */
+  delivery?(headers: Headers): string | undefined;
+  /** Name of the repository the webhook was sent for, if any */
+  repository(payload: unknown): string | undefined;
+  /** Normalises the payload of a push event, several refs might be pushed at once */
+  push(payload: unknown): PushEvent[];
+}
+
+const stripLeadingSlash = (f: string) => f.at(0) === "/" ? f.slice(1) : f;
+
+const commitChanges = (
+  commits: { added: string[]; removed: string[]; modified: string[] }[],
+): FileChanges[] =>
+  commits.map((c) => ({
+    added: c.added.map(stripLeadingSlash),
+    removed: c.removed.map(stripLeadingSlash),
+    modified: c.modified.map(stripLeadingSlash),
+  }));
+
+// Incomplete, only what we need
+type githubPushPayload = {
+  repository: {
+    full_name: string;
+  };
+  /** e.g. `refs/heads/main` or `refs/tags/v1.0` */
+  ref?: string;
+  /** whether the ref was deleted, `after` is all zeros then */
+  deleted?: boolean;
+  forced?: boolean;
+  before: string;
+  after: string;
+  pusher: {
+    name?: string;
+    username?: string;
+    email: string;
+  };
+  commits: {
+    added: string[];
+    removed: string[];
+    modified: string[];
+  }[];
+};
+
+/**
+ * Webhooks of GitHub, Gitea and Forgejo, which share their format. Requests
+ * without event header are taken to be pushes in this format.
+ */
+export const githubAdapter: WebhookAdapter = {
+  name: "GitHub",
+  event: (headers) =>
+    headers.get("X-GitHub-Event") ??
+      headers.get("X-Gitea-Event") ??
+      headers.get("X-Forgejo-Event") ?? "push",
+  delivery: (headers) =>
+    headers.get("X-GitHub-Delivery") ??
+      headers.get("X-Gitea-Delivery") ??
+      headers.get("X-Forgejo-Delivery") ?? undefined,
+  repository: (payload) =>
+    (payload as Partial<githubPushPayload>)?.repository?.full_name,
+  push: (payload) => {
+    const json = payload as githubPushPayload;
+    return [{
+      repository: json.repository.full_name,
+      ref: json.ref,
+      before: json.before,
+      after: json.after,
+      deleted: json.deleted,
+      forced: json.forced,
+      pusher: {
+        name: json.pusher.name ?? json.pusher.username,
+        email: json.pusher.email,
+      },
+      commits: commitChanges(json.commits),
+      // GitHub lists at most 20 commits
+      truncated: json.commits.length >= 20,
+    }];
+  },
+};
+
+// Incomplete, only what we need
+type gitlabPushPayload = {
+  project: {
+    /** e.g. `group/subgroup/project` */
+    path_with_namespace: string;
+  };
+  ref: string;
+  before: string;
+  after: string;
+  user_name?: string;
+  user_username?: string;
+  user_email?: string;
+  /** at most 20, oldest first */
+  commits: {
+    added: string[];
+    removed: string[];
+    modified: string[];
+  }[];
+  total_commits_count: number;
+};
+
+/**
+ * Webhooks of GitLab: "Push Hook" and "Tag Push Hook" are pushes, the
+ * repository is identified by the path of the project (with namespace).
+ */
+export const gitlabAdapter: WebhookAdapter = {
+  name: "GitLab",
+  event: (headers) => {
+    const event = headers.get("X-Gitlab-Event");
+    if (event === null) return undefined;
+    return event === "Push Hook" || event === "Tag Push Hook" ? "push" : event;
+  },
+  delivery: (headers) => headers.get("X-Gitlab-Event-UUID") ?? undefined,
+  repository: (payload) =>
+    (payload as Partial<gitlabPushPayload>)?.project?.path_with_namespace,
+  push: (payload) => {
+    const json = payload as gitlabPushPayload;
+    return [{
+      repository: json.project.path_with_namespace,
+      ref: json.ref,
+      before: json.before,
+      after: json.after,
+      deleted: /^0+$/.test(json.after),
+      pusher: {
+        name: json.user_name ?? json.user_username,
+        email: json.user_email,
+      },
+      commits: commitChanges(json.commits),
+      // GitLab only includes the first 20 commits
+      truncated: json.commits.length < json.total_commits_count,
+    }];
+  },
+};
+
+// Incomplete, only what we need
+type bitbucketServerPushPayload = {
+  actor: {
+    name: string;
+    displayName?: string;
+    emailAddress?: string;
+  };
+  repository: {
+    slug: string;
+    project: {
+      key: string;
+    };
+  };
+  changes: {
+    /** e.g. `refs/heads/main` */
+    refId: string;
+    fromHash: string;
+    toHash: string;
+    type: "ADD" | "UPDATE" | "DELETE";
+  }[];
+};
+
+/**
+ * Webhooks of Bitbucket Server (and Data Center): "repo:refs_changed" is a
+ * push (of possibly several refs), "diagnostics:ping" a ping. The repository
+ * is identified as `${project key}/${repository slug}`.
+ *
+ * The payload lists no changed files, they are determined by the worker.
+ */
+export const bitbucketServerAdapter: WebhookAdapter = {
+  name: "Bitbucket Server",
+  event: (headers) => {
+    const event = headers.get("X-Event-Key");
+    if (event === null) return undefined;
+    return event === "repo:refs_changed"
+      ? "push"
+      : event === "diagnostics:ping"
+      ? "ping"
+      : event;
+  },
+  delivery: (headers) => headers.get("X-Request-Id") ?? undefined,
+  repository: (payload) => {
+    const repository = (payload as Partial<bitbucketServerPushPayload>)
+      ?.repository;
+    return repository?.project &&
+      `${repository.project.key}/${repository.slug}`;
+  },
+  push: (payload) => {
+    const json = payload as bitbucketServerPushPayload;
+    return json.changes.map((change) => ({
+      repository: `${json.repository.project.key}/${json.repository.slug}`,
+      ref: change.refId,
+      before: change.fromHash,
+      after: change.toHash,
+      deleted: change.type === "DELETE",
+      pusher: {
+        name: json.actor.displayName ?? json.actor.name,
+        email: json.actor.emailAddress,
+      },
+    }));
+  },
+};
+
+/** The adapters used by default, the first one recognising a request is used */
+export const defaultWebhookAdapters: WebhookAdapter[] = [
+  gitlabAdapter,
+  bitbucketServerAdapter,
+  githubAdapter,
+];
+
+/**
+ * The first of the adapters recognising the request and its event, undefined
+ * if none does
+ */
+export function selectWebhookAdapter(
+  adapters: WebhookAdapter[],
+  headers: Headers,
+): { adapter: WebhookAdapter; event: string } | undefined {
+  for (const adapter of adapters) {
+    const event = adapter.event(headers);
+    if (event !== undefined) return { adapter, event };
+  }
+  return undefined;
+}
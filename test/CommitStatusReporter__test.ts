@@ -0,0 +1,112 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { CommitStatusReporter } from "../src/CommitStatusReporter.ts";
+import { type LogFn } from "../src/log.ts";
+
+const sha = "0123456789abcdef0123456789abcdef01234567";
+
+/** A LogFn collecting the messages in `messages` */
+function collectingLog(messages: string[]) {
+  return ((message: string) => {
+    messages.push(message);
+  }) as LogFn;
+}
+
+/** Serves a mock forge API recording the requests, responding with `status` */
+function mockApi(status = 201) {
+  const requests: {
+    url: string;
+    authorization: string | null;
+    body: unknown;
+  }[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    requests.push({
+      url: new URL(req.url).pathname,
+      authorization: req.headers.get("Authorization"),
+      body: await req.json(),
+    });
+    return new Response("{}", { status });
+  });
+  return {
+    apiUrl: `http://localhost:${server.addr.port}/api/v1/`,
+    requests,
+    server,
+  };
+}
+
+Deno.test("CommitStatusReporter - posts commit statuses", async () => {
+  const api = mockApi();
+  const log: string[] = [];
+  try {
+    const reporter = new CommitStatusReporter(
+      { apiUrl: api.apiUrl, serverUrl: "https://ghact.example.org" },
+      "default-token",
+    );
+    await reporter.report("org/repo", sha, {
+      state: "pending",
+      description: "Running",
+      targetUrl: "https://ghact.example.org/workdir/jobs/1/log.txt",
+    }, collectingLog(log));
+    await reporter.report(
+      "org/repo",
+      sha,
+      {
+        state: "success",
+        description: "x".repeat(200),
+        preview: true,
+      },
+      collectingLog(log),
+      "repository-token",
+    );
+    await reporter.report("org/repo", "HEAD", {
+      state: "success",
+      description: "not a commit hash",
+    }, collectingLog(log));
+  } finally {
+    await api.server.shutdown();
+  }
+
+  assertEquals(log, []);
+  assertEquals(api.requests, [{
+    url: `/api/v1/repos/org/repo/statuses/${sha}`,
+    authorization: "token default-token",
+    body: {
+      state: "pending",
+      description: "Running",
+      target_url: "https://ghact.example.org/workdir/jobs/1/log.txt",
+      context: "ghact",
+    },
+  }, {
+    url: `/api/v1/repos/org/repo/statuses/${sha}`,
+    authorization: "token repository-token",
+    body: {
+      state: "success",
+      description: "x".repeat(139) + "…",
+      context: "ghact/preview",
+    },
+  }]);
+});
+
+Deno.test("CommitStatusReporter - logs failures instead of throwing", async () => {
+  const api = mockApi(401);
+  const log: string[] = [];
+  try {
+    const reporter = new CommitStatusReporter({
+      apiUrl: api.apiUrl,
+      serverUrl: "https://ghact.example.org",
+      context: "ci/ghact",
+    });
+    await reporter.report("org/repo", sha, {
+      state: "failure",
+      description: "Error: Handler crashed",
+    }, collectingLog(log));
+  } finally {
+    await api.server.shutdown();
+  }
+
+  assertEquals(api.requests.length, 1);
+  assertEquals(api.requests[0].authorization, null);
+  assertEquals(log, [
+    `== Reporting failure status of ${sha} failed: Error: 401 Unauthorized ==`,
+  ]);
+});
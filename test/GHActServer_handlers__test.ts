@@ -149,6 +149,21 @@ Deno.test("addHandler - rejects reserved path '/full_update'", () => {
   );
 });
 
+Deno.test("addHandler - rejects reserved path '/prune'", () => {
+  const worker = createMockWorker();
+  const server = new GHActServer(worker, testConfig);
+
+  const handler: HttpHandler = () => new Response("OK");
+
+  assertThrows(
+    () => {
+      server.addHandler("/prune", "POST", handler);
+    },
+    Error,
+    "reserved",
+  );
+});
+
 Deno.test("addHandler - rejects reserved path '/jobs.json'", () => {
   const worker = createMockWorker();
   const server = new GHActServer(worker, testConfig);
@@ -194,6 +209,21 @@ Deno.test("addHandler - rejects paths starting with workDir", () => {
   );
 });
 
+Deno.test("addHandler - rejects paths starting with /jobs/", () => {
+  const worker = createMockWorker();
+  const server = new GHActServer(worker, testConfig);
+
+  const handler: HttpHandler = () => new Response("OK");
+
+  assertThrows(
+    () => {
+      server.addHandler("/jobs/some-id/cancel", "POST", handler);
+    },
+    Error,
+    "reserved for job management",
+  );
+});
+
 Deno.test("addHandler - rejects duplicate registration", () => {
   const worker = createMockWorker();
   const server = new GHActServer(worker, testConfig);
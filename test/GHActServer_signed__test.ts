@@ -0,0 +1,97 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import type { Config } from "../mod.ts";
+
+// read when the server module is loaded, other test modules run unsigned
+Deno.env.set("WEBHOOK_SECRET", "test-secret");
+const { GHActServer } = await import("../mod.ts");
+const { JobsDataBase } = await import("../src/JobsDataBase.ts");
+Deno.env.delete("WEBHOOK_SECRET");
+
+const testWorkDir = "./workdir/signed-webhooks-test";
+
+const testConfig: Config = {
+  title: "Test Server",
+  description: "Test Description",
+  email: "test@example.com",
+  sourceRepositoryUri: "https://bitbucket.example.org/scm/test/repo.git",
+  sourceBranch: "main",
+  sourceRepository: "TEST/repo",
+  workDir: testWorkDir,
+};
+
+/** Creates a server on a fresh workDir and returns its request handler */
+function createHandler() {
+  try {
+    Deno.removeSync(testWorkDir, { recursive: true });
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  Deno.mkdirSync(testWorkDir, { recursive: true });
+  const server = new GHActServer(
+    { postMessage: () => {}, terminate: () => {} } as unknown as Worker,
+    testConfig,
+  );
+  return (server as unknown as {
+    webhookHandler: (request: Request) => Promise<Response>;
+  }).webhookHandler;
+}
+
+/** The HMAC-SHA256 of the body with the secret as hex */
+async function sign(body: BufferSource) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode("test-secret"),
+    { name: "HMAC", hash: { name: "SHA-256" } },
+    false,
+    ["sign"],
+  );
+  return Array.from(
+    new Uint8Array(await crypto.subtle.sign("HMAC", key, body)),
+    (b) => b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+Deno.test("webhook - accepts signed Bitbucket Server pushes", async () => {
+  const handler = createHandler();
+  const body = Deno.readFileSync(
+    new URL("./fixtures/webhooks/bitbucket_server_push.json", import.meta.url),
+  );
+  const signature = await sign(body);
+  const push = (headers: Record<string, string>) =>
+    handler(
+      new Request("http://localhost/", {
+        method: "POST",
+        headers: { "X-Event-Key": "repo:refs_changed", ...headers },
+        body,
+      }),
+    );
+
+  assertEquals(
+    (await push({ "X-Request-Id": "1", "X-Hub-Signature": "sha256=abc" }))
+      .status,
+    401,
+  );
+  assertEquals(
+    (await push({ "X-Hub-Signature": `sha256=${signature}` })).status,
+    400,
+  );
+  const response = await push({
+    "X-Request-Id": "d1f2e3a4-5b6c",
+    "X-Hub-Signature": `sha256=${signature}`,
+  });
+  assertEquals(response.status, 202);
+  await response.body?.cancel();
+  assertEquals(
+    new JobsDataBase(`${testWorkDir}/jobs`).queuedJobs().map((js) =>
+      js.job.till
+    ),
+    ["178864a7d521b6f5e720b386b2c2b0ef8563e0dc"],
+  );
+  assertEquals(
+    (await push({
+      "X-Request-Id": "d1f2e3a4-5b6c",
+      "X-Hub-Signature": `sha256=${signature}`,
+    })).status,
+    409,
+  );
+});
@@ -0,0 +1,597 @@
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { type Config, GHActServer } from "../mod.ts";
+import { JobsDataBase } from "../src/JobsDataBase.ts";
+
+const testWorkDir = "./workdir/webhooks-test";
+
+const testConfig: Config = {
+  title: "Test Server",
+  description: "Test Description",
+  email: "test@example.com",
+  sourceRepositoryUri: "https://github.com/test/repo.git",
+  sourceBranch: "main",
+  sourceBranches: ["main", "develop"],
+  sourceTags: ["v*"],
+  sourceRepository: "test/repo",
+  workDir: testWorkDir,
+  pullRequestPreviews: true,
+};
+
+function createMockWorker(): Worker {
+  return {
+    postMessage: () => {},
+    terminate: () => {},
+  } as unknown as Worker;
+}
+
+/** Creates a server on a fresh workDir and returns its request handler */
+function createHandler() {
+  try {
+    Deno.removeSync(testWorkDir, { recursive: true });
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  Deno.mkdirSync(testWorkDir, { recursive: true });
+  const server = new GHActServer(createMockWorker(), testConfig);
+  // the handler passed to the http server
+  return (server as unknown as {
+    webhookHandler: (request: Request) => Promise<Response>;
+  }).webhookHandler;
+}
+
+function webhook(event: string, payload: unknown) {
+  return new Request("http://localhost/", {
+    method: "POST",
+    headers: { "X-GitHub-Event": event },
+    body: JSON.stringify(payload),
+  });
+}
+
+const repository = { full_name: "test/repo" };
+const pusher = { name: "Test", email: "test@example.com" };
+const commits = [{ added: ["a.xml"], removed: [], modified: [] }];
+const zeros = "0000000000000000000000000000000000000000";
+
+function queuedJobs() {
+  return new JobsDataBase(`${testWorkDir}/jobs`).queuedJobs().map((js) =>
+    js.job
+  );
+}
+
+Deno.test("webhook - answers pings", async () => {
+  const handler = createHandler();
+  const response = await handler(webhook("ping", { zen: "Keep it simple" }));
+
+  assertEquals(response.status, 200);
+  assertEquals(await response.text(), "Pong");
+  assertEquals(queuedJobs(), []);
+});
+
+Deno.test("webhook - rejects replayed deliveries", async () => {
+  const handler = createHandler();
+  const delivery = () => {
+    const request = webhook("push", {
+      repository,
+      before: "a",
+      after: "b",
+      pusher,
+      commits,
+    });
+    request.headers.set("X-GitHub-Delivery", "72d3162e-cc78-11e3-81ab");
+    return request;
+  };
+
+  assertEquals((await handler(delivery())).status, 202);
+  assertEquals((await handler(delivery())).status, 409);
+  assertEquals(queuedJobs().length, 1);
+});
+
+Deno.test("webhook - rejects replayed bodies with a new delivery ID, also after a restart", async () => {
+  const handler = createHandler();
+  const delivery = (id: string) => {
+    const request = webhook("push", {
+      repository,
+      before: "a",
+      after: "b",
+      pusher,
+      commits,
+    });
+    request.headers.set("X-GitHub-Delivery", id);
+    return request;
+  };
+
+  assertEquals((await handler(delivery("1"))).status, 202);
+  const restarted = new GHActServer(createMockWorker(), testConfig);
+  const restartedHandler = (restarted as unknown as {
+    webhookHandler: (request: Request) => Promise<Response>;
+  }).webhookHandler;
+  assertEquals((await restartedHandler(delivery("2"))).status, 409);
+  assertEquals(queuedJobs().length, 1);
+});
+
+Deno.test("webhook - queues pushes to configured branches only", async () => {
+  const handler = createHandler();
+  const push = (ref: string) =>
+    webhook("push", {
+      repository,
+      ref,
+      before: "a",
+      after: "b",
+      pusher,
+      commits,
+    });
+
+  assertEquals((await handler(push("refs/heads/develop"))).status, 202);
+  assertEquals((await handler(push("refs/heads/feature"))).status, 200);
+  assertEquals(queuedJobs().map((job) => job.branch), ["develop"]);
+});
+
+Deno.test("webhook - ignores branch deletions", async () => {
+  const handler = createHandler();
+  const response = await handler(webhook("push", {
+    repository,
+    ref: "refs/heads/develop",
+    before: "a",
+    after: zeros,
+    deleted: true,
+    pusher,
+    commits: [],
+  }));
+
+  assertEquals(response.status, 200);
+  assertEquals(queuedJobs(), []);
+});
+
+Deno.test("webhook - queues tag jobs for tag pushes and releases", async () => {
+  const handler = createHandler();
+  const tagPush = (tag: string) =>
+    webhook("push", {
+      repository,
+      ref: `refs/tags/${tag}`,
+      before: zeros,
+      after: "c",
+      pusher,
+      commits: [],
+    });
+
+  assertEquals((await handler(tagPush("v1.0"))).status, 202);
+  assertEquals((await handler(tagPush("nightly"))).status, 200);
+  const release = await handler(webhook("release", {
+    action: "published",
+    repository,
+    release: { tag_name: "v1.0", name: null, prerelease: false },
+  }));
+  assertEquals(release.status, 202);
+
+  const jobs = queuedJobs();
+  assertEquals(jobs.map((job) => "type" in job && job.type), ["tag", "tag"]);
+  assertEquals(jobs.map((job) => "tag" in job && job.tag), ["v1.0", "v1.0"]);
+  assertEquals(
+    jobs.filter((job) => "release" in job).map((job) =>
+      "release" in job && job.release?.name
+    ),
+    ["v1.0"],
+  );
+});
+
+Deno.test("webhook - queues previews of pull requests to configured branches", async () => {
+  const handler = createHandler();
+  const pullRequest = (action: string, base: string) =>
+    webhook("pull_request", {
+      action,
+      number: 7,
+      repository,
+      pull_request: {
+        title: "Fix data",
+        head: { sha: "c" },
+        base: { ref: base, sha: "a" },
+      },
+    });
+
+  assertEquals((await handler(pullRequest("opened", "develop"))).status, 202);
+  assertEquals((await handler(pullRequest("closed", "develop"))).status, 200);
+  assertEquals((await handler(pullRequest("opened", "feature"))).status, 200);
+
+  const [job, ...others] = queuedJobs();
+  assertEquals(others, []);
+  assertEquals("type" in job && job.type, "pull_request");
+  assertEquals("preview" in job && job.preview, true);
+  assertEquals([job.branch, job.from, job.till], ["develop", "a", "c"]);
+});
+
+Deno.test("index page - escapes pull request titles and job messages", async () => {
+  const handler = createHandler();
+  const script = "<script>alert(1)</script>";
+  const response = await handler(webhook("pull_request", {
+    action: "opened",
+    number: 8,
+    repository,
+    pull_request: {
+      title: script,
+      head: { sha: "c" },
+      base: { ref: "main", sha: "a" },
+    },
+  }));
+  assertEquals(response.status, 202);
+  const db = new JobsDataBase(`${testWorkDir}/jobs`);
+  const [job] = queuedJobs();
+  db.setStatus(job, "failed", script);
+
+  const page = await (await handler(new Request("http://localhost/"))).text();
+  assert(!page.includes(script));
+  assert(page.includes("#8 &lt;script&gt;alert(1)&lt;/script&gt;"));
+  assertEquals(
+    page.split("&lt;script&gt;alert(1)&lt;/script&gt;").length - 1,
+    2,
+  );
+});
+
+Deno.test("webhook - queues GitLab pushes", async () => {
+  const handler = createHandler();
+  const response = await handler(
+    new Request("http://localhost/", {
+      method: "POST",
+      headers: { "X-Gitlab-Event": "Push Hook" },
+      body: Deno.readTextFileSync(
+        new URL("./fixtures/webhooks/gitlab_push.json", import.meta.url),
+      ),
+    }),
+  );
+
+  assertEquals(response.status, 202);
+  const [job] = queuedJobs();
+  assertEquals(job.author, { name: "John Smith", email: "john@example.com" });
+  assertEquals("files" in job && job.files, {
+    from: "95790bf891e76fee5e1747ab589903a6a1f80f22",
+    till: "da1560886d4f094c3e6c9ef40349f7d38b5d27d7",
+    added: ["data/new.xml"],
+    removed: ["data/old.xml"],
+    modified: ["README.md"],
+  });
+});
+
+Deno.test("webhook - leaves unreliable file lists to the worker", async () => {
+  const handler = createHandler();
+  const push = (before: string, forced: boolean) =>
+    webhook("push", {
+      repository,
+      ref: "refs/heads/main",
+      before,
+      after: "b",
+      forced,
+      pusher,
+      commits,
+    });
+
+  const pushes: [string, boolean][] = [["a", false], [zeros, false], [
+    "a",
+    true,
+  ]];
+  for (const [before, forced] of pushes) {
+    assertEquals((await handler(push(before, forced))).status, 202);
+  }
+  assertEquals(
+    queuedJobs().map((job) => "incomplete" in job && !!job.incomplete),
+    [false, true, true],
+  );
+});
+
+Deno.test("jobs.json - filters, counts and paginates jobs", async () => {
+  const handler = createHandler();
+  const push = (files: string[]) =>
+    webhook("push", {
+      repository,
+      ref: "refs/heads/main",
+      before: "a",
+      after: "b",
+      pusher,
+      commits: [{ added: files, removed: [], modified: [] }],
+    });
+  for (const files of [["a.xml"], ["b.xml"], ["a.xml", "c.xml"]]) {
+    assertEquals((await handler(push(files))).status, 202);
+  }
+  const jobsJson = async (query: string) => {
+    const response = await handler(
+      new Request(`http://localhost/jobs.json?${query}`),
+    );
+    return {
+      status: response.status,
+      total: response.headers.get("X-Total-Count"),
+      next: response.headers.get("Link"),
+      files: response.ok
+        ? (await response.json()).map((
+          js: { job: { files: { added: string[] } } },
+        ) => js.job.files.added)
+        : await response.text(),
+    };
+  };
+
+  const first = await jobsJson("limit=2");
+  assertEquals(first.files, [["a.xml", "c.xml"], ["b.xml"]]);
+  assertEquals(first.total, "3");
+  const next = first.next?.match(/^<(.*)>; rel="next"$/)?.[1];
+  assertEquals(
+    await jobsJson(new URL(next!, "http://localhost").search.slice(1)),
+    { status: 200, total: "3", next: null, files: [["a.xml"]] },
+  );
+  assertEquals(
+    await jobsJson("file=a.xml&status=queued,running&type=webhook"),
+    {
+      status: 200,
+      total: "2",
+      next: null,
+      files: [["a.xml", "c.xml"], ["a.xml"]],
+    },
+  );
+  assertEquals(
+    (await jobsJson("since=2000-01-01&until=2000-01-02")).total,
+    "0",
+  );
+  assertEquals((await jobsJson("status=pending")).status, 400);
+  assertEquals((await jobsJson("since=yesterday")).status, 400);
+});
+
+Deno.test("log stream - follows the log until the job finishes", async () => {
+  const handler = createHandler();
+  const db = new JobsDataBase(`${testWorkDir}/jobs`);
+  const job = { id: "2024-01-01T00:00:00.000Z", author: pusher };
+  db.addJob(job);
+  const jobStatus = db.leaseNextJob("0")!;
+  const logFile = `${jobStatus.dir}/log.txt`;
+  Deno.writeTextFileSync(logFile, "Starting\nOUT> ä\r\n");
+  const stream = (lastEventId?: string) =>
+    handler(
+      new Request(
+        `http://localhost/jobs/${encodeURIComponent(job.id)}/log/stream`,
+        { headers: lastEventId ? { "Last-Event-ID": lastEventId } : {} },
+      ),
+    );
+
+  const started = await stream();
+  assertEquals(started.headers.get("Content-Type"), "text/event-stream");
+  await started.body!.cancel();
+  const response = await stream("9");
+  const reader = response.body!.pipeThrough(new TextDecoderStream())
+    .getReader();
+  assertEquals((await reader.read()).value, "id: 18\ndata: OUT> ä\n\n");
+  Deno.writeTextFileSync(logFile, "Done", { append: true });
+  db.setStatus(job, "completed");
+  let rest = "";
+  for (
+    let chunk = await reader.read();
+    !chunk.done;
+    chunk = await reader.read()
+  ) {
+    rest += chunk.value;
+  }
+  assertEquals(rest, "id: 22\ndata: Done\n\nevent: end\ndata: completed\n\n");
+
+  assertEquals((await stream("x")).status, 400);
+  assertEquals(
+    (await handler(new Request("http://localhost/jobs/unknown/log/stream")))
+      .status,
+    404,
+  );
+});
+
+Deno.test("jobs - shows job details and retries only the failed files", async () => {
+  const handler = createHandler();
+  const db = new JobsDataBase(`${testWorkDir}/jobs`);
+  const job = {
+    id: "2024-01-01T00:00:00.000Z",
+    author: pusher,
+    files: {
+      from: "a",
+      till: "b",
+      added: ["a.xml"],
+      modified: ["b.xml"],
+      removed: ["c.xml"],
+    },
+  };
+  db.addJob(job);
+  db.setFileResults(job, {
+    "a.xml": { status: "ok" },
+    "b.xml": { status: "failed", reason: "Invalid <root>" },
+    "c.xml": { status: "failed" },
+  });
+  const request = (path: string, method = "GET") =>
+    handler(new Request(`http://localhost${path}`, { method }));
+  const path = `/jobs/${encodeURIComponent(job.id)}`;
+
+  assertEquals((await request(`${path}/retry-failed`, "POST")).status, 409);
+  db.setStatus(job, "failed", "2 of 3 files failed");
+  const page = await (await request(path)).text();
+  assert(
+    page.includes("<td>b.xml</td><td>failed</td><td>Invalid &lt;root&gt;</td>"),
+  );
+  assert(page.includes("Retry only the 2 failed files"));
+
+  const response = await request(`${path}/retry-failed`, "POST");
+  assertEquals(response.status, 202);
+  const { queued } = await response.json();
+  assertEquals(queuedJobs(), [{
+    id: queued,
+    author: pusher,
+    files: { modified: ["b.xml"], removed: ["c.xml"] },
+    retryOf: job.id,
+  }]);
+  assert((await (await request(`/jobs/${encodeURIComponent(queued)}`)).text())
+    .includes(`Retry of</th><td><a href="${path}">`));
+
+  db.setFileResults(job, { "a.xml": { status: "ok" } });
+  assertEquals((await request(`${path}/retry-failed`, "POST")).status, 409);
+  assertEquals((await request("/jobs/unknown")).status, 404);
+  assertEquals(
+    (await request("/jobs/unknown/retry-failed", "POST")).status,
+    404,
+  );
+});
+
+Deno.test("jobs - retries failed jobs with their original changes", async () => {
+  const handler = createHandler();
+  const db = new JobsDataBase(`${testWorkDir}/jobs`);
+  const job = {
+    id: "2024-01-01T00:00:00.000Z",
+    author: pusher,
+    files: {
+      from: "a",
+      till: "b",
+      added: ["a.xml"],
+      modified: ["b.xml"],
+      removed: ["c.xml"],
+    },
+  };
+  db.addJob(job);
+  db.startAttempt(job, 0);
+  db.failAttempt(job, "Error: Invalid <root>");
+  db.setStatus(job, "failed", "Error: Invalid <root>");
+  const retry = (id: string) =>
+    handler(
+      new Request(`http://localhost/jobs/${encodeURIComponent(id)}/retry`, {
+        method: "POST",
+      }),
+    );
+
+  assertEquals((await retry(job.id)).status, 202);
+  assertEquals(queuedJobs(), [job]);
+  const status = JSON.parse(
+    Deno.readTextFileSync(`${testWorkDir}/jobs/${job.id}/status.json`),
+  );
+  assertEquals(status.status, "queued");
+  assertEquals(status.attempts, [
+    { logOffset: 0, error: "Error: Invalid <root>" },
+  ]);
+
+  assertEquals((await retry(job.id)).status, 409);
+  db.setStatus(job, "completed");
+  assertEquals((await retry(job.id)).status, 409);
+  assertEquals((await retry("unknown")).status, 404);
+});
+
+Deno.test("logs - serves compressed logs from the jobs directory only", async () => {
+  createHandler();
+  const workDir = Deno.realPathSync(testWorkDir);
+  const server = new GHActServer(createMockWorker(), {
+    ...testConfig,
+    workDir,
+  });
+  const handler = (server as unknown as {
+    webhookHandler: (request: Request) => Promise<Response>;
+  }).webhookHandler;
+  const compressed = new Uint8Array(
+    await new Response(
+      ReadableStream.from([new TextEncoder().encode("log")])
+        .pipeThrough(new CompressionStream("gzip")),
+    ).arrayBuffer(),
+  );
+  for (const dir of [`${workDir}/jobs/job`, `${workDir}/private`]) {
+    Deno.mkdirSync(dir, { recursive: true });
+    Deno.writeFileSync(`${dir}/log.txt.gz`, compressed);
+  }
+  const request = (path: string) =>
+    handler(new Request(`http://localhost${path}`));
+
+  const response = await request(`${workDir}/jobs/job/log.txt`);
+  assertEquals(response.status, 200);
+  assertEquals(response.headers.get("Content-Encoding"), "gzip");
+  assertEquals(new Uint8Array(await response.arrayBuffer()), compressed);
+  const escaping = await request(
+    `${workDir}/jobs/job%2F..%2F..%2Fprivate/log.txt`,
+  );
+  assertEquals(escaping.status, 404);
+  await escaping.body?.cancel();
+});
+
+Deno.test("jobs - cancels queued jobs and the children of full updates", async () => {
+  const messages: unknown[] = [];
+  createHandler();
+  const server = new GHActServer({
+    postMessage: (message: unknown) => messages.push(message),
+    terminate: () => {},
+  } as unknown as Worker, testConfig);
+  const handler = (server as unknown as {
+    webhookHandler: (request: Request) => Promise<Response>;
+  }).webhookHandler;
+  const db = new JobsDataBase(`${testWorkDir}/jobs`);
+  const queued = { id: "2024-01-01T00:00:00.000Z", author: pusher };
+  const gather = {
+    id: "2024-01-01T00:00:01.000Z full update gathering",
+    type: "full_update_gather" as const,
+    author: pusher,
+  };
+  const chunks = [1, 2].map((n) => ({
+    id: `2024-01-01T00:00:01.000Z full update: 00${n} of 002`,
+    author: pusher,
+    files: { modified: [`${n}.xml`], removed: [] },
+  }));
+  db.addJob(queued);
+  db.addJob(gather);
+  db.setStatus(gather, "completed");
+  db.addChildJobs(gather, chunks);
+  db.setStatus(chunks[0], "running");
+  const cancel = (id: string) =>
+    handler(
+      new Request(`http://localhost/jobs/${encodeURIComponent(id)}/cancel`, {
+        method: "POST",
+      }),
+    );
+
+  const response = await cancel(queued.id);
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), { cancelled: [queued.id] });
+  assertEquals(db.getJob(queued.id)?.status, "cancelled");
+  assertEquals((await cancel(queued.id)).status, 409);
+
+  assertEquals(await (await cancel(gather.id)).json(), {
+    cancelled: chunks.map((j) => j.id),
+  });
+  assertEquals(
+    db.childJobs(gather.id).map((js) => js.status),
+    ["cancelled", "cancelled"],
+  );
+  assertEquals(db.getJob(gather.id)?.status, "completed");
+  // the worker executing the running chunk is asked to abort it
+  assert(
+    messages.some((m) =>
+      JSON.stringify(m) ===
+        JSON.stringify({ type: "cancel", jobId: chunks[0].id })
+    ),
+  );
+  assertEquals((await cancel("unknown")).status, 404);
+});
+
+Deno.test("workers - replaces unresponsive workers created by functions", () => {
+  createHandler();
+  const created: { messages: unknown[]; terminated: boolean }[] = [];
+  const createWorker = () => {
+    const worker = { messages: [] as unknown[], terminated: false };
+    created.push(worker);
+    return {
+      postMessage: (message: unknown) => worker.messages.push(message),
+      terminate: () => worker.terminated = true,
+    } as unknown as Worker;
+  };
+  const passed = createWorker();
+  const server = new GHActServer([createWorker, passed], testConfig);
+  const workers = (server as unknown as { workers: Worker[] }).workers;
+  const unresponsive = (worker: Worker) =>
+    worker.onmessage!(
+      { data: { type: "unresponsive", jobId: "job" } } as MessageEvent,
+    );
+
+  unresponsive(workers[0]);
+  assertEquals(created.map((w) => w.terminated), [false, true, false]);
+  assertEquals(created[2].messages[0], {
+    type: "init",
+    config: testConfig,
+    workerId: "0",
+  });
+  assertEquals(workers.length, 2);
+
+  // workers passed as Worker can't be recreated
+  unresponsive(workers[1]);
+  assertEquals(created.map((w) => w.terminated), [false, true, false]);
+});
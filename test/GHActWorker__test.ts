@@ -0,0 +1,277 @@
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { type Config, GHActWorker, type Job } from "../mod.ts";
+import { JobsDataBase } from "../src/JobsDataBase.ts";
+
+const workDir = "./workdir/worker-test";
+const author = { name: "Test", email: "test@example.org" };
+
+/** Runs git in the directory and returns its trimmed output */
+async function git(cwd: string, ...args: string[]) {
+  const { success, stdout, stderr } = await new Deno.Command("git", {
+    args: [
+      "-c",
+      "user.name=Test",
+      "-c",
+      "user.email=test@example.org",
+      ...args,
+    ],
+    cwd,
+  }).output();
+  if (!success) throw new Error(new TextDecoder().decode(stderr));
+  return new TextDecoder().decode(stdout).trim();
+}
+
+/**
+ * Creates a fresh workDir with a source repository of two commits, returns
+ * the config and the webhook jobs for pushing these commits
+ */
+async function setUp() {
+  try {
+    Deno.removeSync(workDir, { recursive: true });
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  const source = `${workDir}/source`;
+  Deno.mkdirSync(source, { recursive: true });
+  await git(source, "init", "--quiet", "--initial-branch=main");
+  const commits: string[] = [];
+  for (const content of ["a", "b"]) {
+    Deno.writeTextFileSync(`${source}/a.txt`, content);
+    await git(source, "add", ".");
+    await git(source, "commit", "--quiet", "-m", content);
+    commits.push(await git(source, "rev-parse", "HEAD"));
+  }
+  const config: Config = {
+    title: "Test Worker",
+    description: "Test Description",
+    email: "test@example.org",
+    sourceRepositoryUri: Deno.realPathSync(source),
+    sourceBranch: "main",
+    sourceRepository: "test/repo",
+    workDir,
+  };
+  const push = (id: string): Job => ({
+    id,
+    author,
+    from: commits[0],
+    till: commits[1],
+    files: {
+      from: commits[0],
+      till: commits[1],
+      added: [],
+      modified: ["a.txt"],
+      removed: [],
+    },
+  });
+  return { config, push };
+}
+
+/**
+ * Creates a worker in a fake scope and initializes it, `done` resolves once it
+ * executed all queued jobs, `messages` are those posted to the server
+ */
+function runWorker(
+  config: Config,
+  jobHandler: ConstructorParameters<typeof GHActWorker>[1],
+  workerId = "0",
+) {
+  const messages: { type: string; jobId?: string }[] = [];
+  const scope = {
+    onmessage: undefined,
+    postMessage: (message: { type: string }) => messages.push(message),
+  } as unknown as {
+    onmessage: (e: { data: unknown }) => Promise<void>;
+  };
+  new GHActWorker(
+    scope as unknown as ConstructorParameters<typeof GHActWorker>[0],
+    jobHandler,
+  );
+  const done = scope.onmessage({ data: { type: "init", config, workerId } });
+  return { scope, done, messages };
+}
+
+Deno.test("GHActWorker - does not execute cancelled queued jobs", async () => {
+  const { config, push } = await setUp();
+  const db = new JobsDataBase(`${workDir}/jobs`);
+  const first = push("2024-01-01T00:00:00.000Z");
+  const second = push("2024-01-01T00:00:01.000Z");
+  db.addJob(first);
+  db.addJob(second);
+  db.setStatus(second, "cancelled", "Cancelled via API");
+  const executed: string[] = [];
+
+  await runWorker(config, (job) => {
+    executed.push(job.id);
+  }).done;
+
+  assertEquals(executed, [first.id]);
+  assertEquals(db.getJob(first.id)?.status, "completed");
+  assertEquals(db.getJob(second.id)?.status, "cancelled");
+});
+
+Deno.test("GHActWorker - aborts the signal of the cancelled job", async () => {
+  const { config, push } = await setUp();
+  const db = new JobsDataBase(`${workDir}/jobs`);
+  const job = push("2024-01-01T00:00:00.000Z");
+  db.addJob(job);
+  let aborted = false;
+
+  const worker = runWorker(config, async (_job, _log, signal) => {
+    // as done by the server on POST /jobs/{id}/cancel
+    db.setStatus(job, "cancelled", "Cancelled via API");
+    worker.scope.onmessage({ data: { type: "cancel", jobId: job.id } });
+    aborted = signal.aborted;
+    signal.throwIfAborted();
+    await Promise.resolve();
+  });
+  await worker.done;
+
+  assertEquals(aborted, true);
+  assertEquals(db.getJob(job.id)?.status, "cancelled");
+  assertEquals(db.getJob(job.id)?.message, "Cancelled via API");
+});
+
+Deno.test("GHActWorker - keeps jobs cancelled while their handler finished", async () => {
+  const { config, push } = await setUp();
+  const db = new JobsDataBase(`${workDir}/jobs`);
+  const job = push("2024-01-01T00:00:00.000Z");
+  db.addJob(job);
+
+  // the cancel message did not arrive before the handler returned
+  await runWorker(config, () => {
+    db.setStatus(job, "cancelled", "Cancelled via API");
+    return "Done";
+  }).done;
+
+  assertEquals(db.getJob(job.id)?.status, "cancelled");
+  assertEquals(db.getJob(job.id)?.message, "Cancelled via API");
+});
+
+Deno.test("GHActWorker - records the attempts in status.json", async () => {
+  const { config, push } = await setUp();
+  const db = new JobsDataBase(`${workDir}/jobs`);
+  const job = push("2024-01-01T00:00:00.000Z");
+  db.addJob(job);
+  let attempt = 0;
+
+  await runWorker(
+    { ...config, retry: { maxAttempts: 2, initialDelay: 1 } },
+    () => {
+      if (++attempt === 1) throw new Error("Temporary failure");
+      return "Done";
+    },
+  ).done;
+
+  const status = JSON.parse(
+    Deno.readTextFileSync(`${workDir}/jobs/${job.id}/status.json`),
+  );
+  assertEquals(status.status, "completed");
+  assertEquals(status.attempts.length, 2);
+  assertEquals(status.attempts[0].error, "Error: Temporary failure");
+  assertEquals(status.attempts[1].error, undefined);
+  assert(status.attempts[1].logOffset > status.attempts[0].logOffset);
+});
+
+Deno.test("GHActWorker - asks to be replaced if the jobHandler does not return", async () => {
+  const { config, push } = await setUp();
+  const db = new JobsDataBase(`${workDir}/jobs`);
+  const job = push("2024-01-01T00:00:00.000Z");
+  db.addJob(job);
+  let returnHandler = () => {};
+
+  // e.g. waiting for a command which ignores the signal
+  const worker = runWorker(
+    { ...config, jobTimeout: 1000 },
+    () => new Promise<void>((resolve) => returnHandler = resolve),
+  );
+  for (
+    let i = 0;
+    i < 100 && !worker.messages.some((m) => m.type === "unresponsive");
+    i++
+  ) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  assertEquals(
+    worker.messages.find((m) => m.type === "unresponsive"),
+    { type: "unresponsive", jobId: job.id },
+  );
+  assertEquals(db.getJob(job.id)?.status, "failed");
+  returnHandler();
+  await worker.done;
+});
+
+Deno.test("GHActWorker - runs the chunks of a full update at the same time", async () => {
+  const { config, push } = await setUp();
+  const db = new JobsDataBase(`${workDir}/jobs`);
+  // clones the checkout, as the full_update_gather job would
+  db.addJob(push("2024-01-01T00:00:00.000Z"));
+  await runWorker(config, () => {}).done;
+  const gather = {
+    id: "2024-01-01T00:00:01.000Z full update gathering",
+    type: "full_update_gather" as const,
+    author,
+  };
+  const chunks = [1, 2].map((n) => ({
+    id: `2024-01-01T00:00:01.000Z full update: 00${n}`,
+    author,
+    files: { modified: [`${n}.txt`], removed: [] },
+  }));
+  db.addJob(gather);
+  db.setStatus(gather, "completed");
+  db.addChildJobs(gather, chunks);
+  const running = new Set<string>();
+  let concurrent = false;
+
+  const jobHandler = async (job: Job) => {
+    running.add(job.id);
+    // waits for the other chunk to start
+    for (let i = 0; i < 50 && running.size < 2; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    concurrent ||= running.size === 2;
+    running.delete(job.id);
+  };
+  await Promise.all([
+    runWorker(config, jobHandler, "0").done,
+    runWorker(config, jobHandler, "1").done,
+  ]);
+
+  assertEquals(concurrent, true);
+  assertEquals(
+    chunks.map((chunk) => db.getJob(chunk.id)?.status),
+    ["completed", "completed"],
+  );
+});
+
+Deno.test("GHActWorker - links commit statuses to the page of the job", async () => {
+  const { config, push } = await setUp();
+  const db = new JobsDataBase(`${workDir}/jobs`);
+  const job = push("2024-01-01T00:00:00.000Z #1?");
+  db.addJob(job);
+  const targetUrls: string[] = [];
+  const api = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    targetUrls.push((await req.json()).target_url);
+    return new Response("{}", { status: 201 });
+  });
+
+  try {
+    await runWorker({
+      ...config,
+      commitStatus: {
+        apiUrl: `http://localhost:${api.addr.port}`,
+        serverUrl: "https://ghact.example.org/",
+      },
+    }, () => {}).done;
+  } finally {
+    await api.shutdown();
+  }
+
+  const jobPage = "https://ghact.example.org/jobs/" +
+    "2024-01-01T00%3A00%3A00.000Z%20%231%3F";
+  assertEquals(targetUrls, [jobPage, jobPage]);
+});
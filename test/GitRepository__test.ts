@@ -29,3 +29,237 @@ Deno.test("GitRepository.getModifiedAfter", async () => {
     till: "10c5bf4ede1667f4243e585636004d6594d62dab",
   });
 });
+
+/** Runs git in the directory and returns its trimmed output */
+async function git(cwd: string, ...args: string[]) {
+  const { success, stdout, stderr } = await new Deno.Command("git", {
+    args: [
+      "-c",
+      "user.name=Test",
+      "-c",
+      "user.email=test@example.org",
+      ...args,
+    ],
+    cwd,
+  }).output();
+  if (!success) throw new Error(new TextDecoder().decode(stderr));
+  return new TextDecoder().decode(stdout).trim();
+}
+
+Deno.test("GitRepository.getChangesBetween and mergeBase", async () => {
+  const source = "./workdir/git-source";
+  try {
+    Deno.removeSync("./workdir/git-source", { recursive: true });
+    Deno.removeSync("./workdir/git-checkout", { recursive: true });
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  Deno.mkdirSync(source, { recursive: true });
+  await git(source, "init", "--quiet", "--initial-branch=main");
+  Deno.writeTextFileSync(`${source}/a.txt`, "a");
+  Deno.writeTextFileSync(`${source}/b.txt`, "b");
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "first");
+  const first = await git(source, "rev-parse", "HEAD");
+  Deno.writeTextFileSync(`${source}/a.txt`, "a2");
+  Deno.writeTextFileSync(`${source}/c.txt`, "c");
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "second");
+  const second = await git(source, "rev-parse", "HEAD");
+  // rewrite the history as if force-pushed
+  await git(source, "reset", "--quiet", "--hard", first);
+  await git(source, "rm", "--quiet", "b.txt");
+  await git(source, "commit", "--quiet", "-m", "rewritten");
+  const rewritten = await git(source, "rev-parse", "HEAD");
+  await git(source, "branch", "old", second);
+
+  const repo = new GitRepository(
+    Deno.realPathSync(source),
+    "main",
+    undefined,
+    "./workdir/git-checkout",
+  );
+  await repo.cloneRepo();
+  await git(repo.directory, "fetch", "--quiet", "origin", "old");
+
+  assertEquals(await repo.getChangesBetween(first, second), {
+    added: ["c.txt"],
+    modified: ["a.txt"],
+    removed: [],
+    from: first,
+    till: second,
+  });
+  assertEquals(
+    await repo.getChangesBetween(GitRepository.EMPTY_TREE, rewritten),
+    {
+      added: ["a.txt"],
+      modified: [],
+      removed: [],
+      from: GitRepository.EMPTY_TREE,
+      till: rewritten,
+    },
+  );
+  assertEquals(await repo.mergeBase(first, rewritten), first);
+  assertEquals(await repo.mergeBase(second, rewritten), first);
+  assertEquals(
+    await repo.mergeBase("0".repeat(40), rewritten),
+    undefined,
+  );
+});
+
+Deno.test("GitRepository - reports renames, copies and type changes", async () => {
+  const source = "./workdir/git-renames-source";
+  for (const dir of [source, "./workdir/git-renames-checkout"]) {
+    try {
+      Deno.removeSync(dir, { recursive: true });
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) throw err;
+    }
+  }
+  Deno.mkdirSync(source, { recursive: true });
+  await git(source, "init", "--quiet", "--initial-branch=main");
+  const content = "line\n".repeat(20);
+  Deno.writeTextFileSync(`${source}/old.xml`, content);
+  Deno.writeTextFileSync(`${source}/template.xml`, "template\n".repeat(20));
+  Deno.writeTextFileSync(`${source}/link.xml`, "a file");
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "first");
+  const first = await git(source, "rev-parse", "HEAD");
+  await git(source, "mv", "old.xml", "new.xml");
+  // git only looks for copies of files modified in the same commit
+  Deno.writeTextFileSync(`${source}/copy.xml`, "template\n".repeat(21));
+  Deno.writeTextFileSync(`${source}/template.xml`, "template\n".repeat(19));
+  Deno.removeSync(`${source}/link.xml`);
+  Deno.symlinkSync("new.xml", `${source}/link.xml`);
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "second");
+  const second = await git(source, "rev-parse", "HEAD");
+
+  const repo = new GitRepository(
+    Deno.realPathSync(source),
+    "main",
+    undefined,
+    "./workdir/git-renames-checkout",
+  );
+  await repo.cloneRepo();
+
+  assertEquals(await repo.getChangesBetween(first, second), {
+    added: ["copy.xml", "new.xml"],
+    modified: ["template.xml", "link.xml"],
+    removed: ["old.xml"],
+    typeChanged: ["link.xml"],
+    from: first,
+    till: second,
+  });
+  repo.detectRenames = true;
+  assertEquals(await repo.getChangesBetween(first, second), {
+    added: [],
+    modified: ["template.xml", "link.xml"],
+    removed: [],
+    typeChanged: ["link.xml"],
+    renamed: [{ from: "old.xml", to: "new.xml" }],
+    copied: [{ from: "template.xml", to: "copy.xml" }],
+    from: first,
+    till: second,
+  });
+});
+
+Deno.test("GitRepository - follows force-pushes over an existing checkout", async () => {
+  const source = "./workdir/git-force-push-source";
+  for (const dir of [source, "./workdir/git-force-push-checkout"]) {
+    try {
+      Deno.removeSync(dir, { recursive: true });
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) throw err;
+    }
+  }
+  Deno.mkdirSync(source, { recursive: true });
+  await git(source, "init", "--quiet", "--initial-branch=main");
+  Deno.writeTextFileSync(`${source}/a.txt`, "a");
+  Deno.writeTextFileSync(`${source}/b.txt`, "b");
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "first");
+  const first = await git(source, "rev-parse", "HEAD");
+
+  const repo = new GitRepository(
+    Deno.realPathSync(source),
+    "main",
+    undefined,
+    "./workdir/git-force-push-checkout",
+  );
+  await repo.cloneRepo();
+
+  Deno.writeTextFileSync(`${source}/a.txt`, "a2");
+  Deno.writeTextFileSync(`${source}/c.txt`, "c");
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "second");
+  const from = await git(source, "rev-parse", "HEAD");
+  await repo.updateLocalData();
+  // marks the checkout, a new clone would not keep it
+  Deno.writeTextFileSync(`${repo.directory}/.git/marker`, "");
+
+  // rewrite the history as if force-pushed
+  await git(source, "reset", "--quiet", "--hard", first);
+  await git(source, "rm", "--quiet", "b.txt");
+  Deno.writeTextFileSync(`${source}/d.txt`, "d");
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "rewritten");
+  const till = await git(source, "rev-parse", "HEAD");
+  await repo.updateLocalData();
+
+  assertEquals(Deno.statSync(`${repo.directory}/.git/marker`).isFile, true);
+  assertEquals(await git(repo.directory, "rev-parse", "HEAD"), till);
+  assertEquals(await repo.mergeBase(from, till), first);
+  assertEquals(await repo.getForcePushChanges(first, from, till), {
+    added: ["d.txt"],
+    modified: ["a.txt"],
+    removed: ["b.txt", "c.txt"],
+    from,
+    till,
+  });
+});
+
+Deno.test("GitRepository.whileInUse - defers updates by other workers", async () => {
+  const source = "./workdir/git-in-use-source";
+  for (const dir of [source, "./workdir/git-in-use-checkout"]) {
+    try {
+      Deno.removeSync(dir, { recursive: true });
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) throw err;
+    }
+  }
+  Deno.mkdirSync(source, { recursive: true });
+  await git(source, "init", "--quiet", "--initial-branch=main");
+  Deno.writeTextFileSync(`${source}/a.txt`, "a");
+  await git(source, "add", ".");
+  await git(source, "commit", "--quiet", "-m", "first");
+  // each worker of a pool has its own instance
+  const [repo, otherWorkersRepo] = [1, 2].map(() =>
+    new GitRepository(
+      Deno.realPathSync(source),
+      "main",
+      undefined,
+      "./workdir/git-in-use-checkout",
+    )
+  );
+  await repo.cloneRepo();
+  Deno.writeTextFileSync(`${source}/a.txt`, "a2");
+  await git(source, "commit", "--quiet", "-am", "second");
+
+  let updated = false;
+  let update: Promise<void> | undefined;
+  await repo.whileInUse(async () => {
+    // updating the checkout while using it is possible
+    await repo.updateLocalData();
+    Deno.writeTextFileSync(`${source}/a.txt`, "a3");
+    await git(source, "commit", "--quiet", "-am", "third");
+    update = otherWorkersRepo.updateLocalData().then(() => {
+      updated = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    assertEquals(updated, false);
+    assertEquals(Deno.readTextFileSync(`${repo.directory}/a.txt`), "a2");
+  });
+  await update;
+  assertEquals(Deno.readTextFileSync(`${repo.directory}/a.txt`), "a3");
+});
@@ -0,0 +1,533 @@
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { existsSync } from "https://deno.land/std@0.224.0/fs/mod.ts";
+
+import {
+  decompressLog,
+  JobsDataBase,
+  withTimings,
+} from "../src/JobsDataBase.ts";
+import { registerSecret } from "../src/secrets.ts";
+
+const jobsDir = "./workdir/jobs-test";
+const author = { name: "Test", email: "test@example.org" };
+
+function freshDataBase() {
+  try {
+    Deno.removeSync(jobsDir, { recursive: true });
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  return new JobsDataBase(jobsDir);
+}
+
+Deno.test("JobsDataBase - records timestamps through the job lifecycle", () => {
+  const db = freshDataBase();
+  const job = { id: "2024-01-01T00:00:00.000Z", author };
+
+  db.addJob(job);
+  assertEquals(db.getJob(job.id)?.status, "queued");
+  assert(db.getJob(job.id)?.queuedAt);
+  assertEquals(db.queuedJobs().map((js) => js.job.id), [job.id]);
+
+  db.setStatus(job, "running");
+  assert(db.getJob(job.id)?.startedAt);
+  assertEquals(db.queuedJobs(), []);
+
+  db.setStatus(job, "completed", "done");
+  const jobStatus = withTimings(db.getJob(job.id)!);
+  assertEquals(jobStatus.status, "completed");
+  assertEquals(jobStatus.message, "done");
+  assert(jobStatus.finishedAt);
+  assert(jobStatus.queueWait !== undefined && jobStatus.queueWait >= 0);
+  assert(jobStatus.duration !== undefined && jobStatus.duration >= 0);
+});
+
+Deno.test("JobsDataBase - treats legacy pending jobs as queued", () => {
+  const db = freshDataBase();
+  const job = { id: "2024-01-01T00:00:00.000Z", author };
+  db.addJob(job);
+  const statusFile = `${jobsDir}/${job.id}/status.json`;
+  const legacy = JSON.parse(Deno.readTextFileSync(statusFile));
+  legacy.status = "pending";
+  Deno.writeTextFileSync(statusFile, JSON.stringify(legacy));
+
+  assertEquals(db.getJob(job.id)?.status, "queued");
+  assertEquals(db.queuedJobs().length, 1);
+});
+
+Deno.test("JobsDataBase - redacts secrets from messages and errors", () => {
+  const db = freshDataBase();
+  const job = { id: "2024-01-01T00:00:00.000Z", author };
+  registerSecret("jobs-database-secret");
+  db.addJob(job);
+  db.startAttempt(job, 0);
+  db.failAttempt(job, "Error: invalid jobs-database-secret");
+  db.setStatus(
+    job,
+    "failed",
+    "Cloning of https://ghp_token@github.com/org/repo.git failed",
+  );
+
+  const jobStatus = db.getJob(job.id)!;
+  assertEquals(
+    jobStatus.message,
+    "Cloning of https://***@github.com/org/repo.git failed",
+  );
+  assertEquals(jobStatus.attempts?.[0].error, "Error: invalid ***");
+});
+
+Deno.test("JobsDataBase - records the results of the files of a job", () => {
+  const db = freshDataBase();
+  const job = { id: "2024-01-01T00:00:00.000Z", author };
+  registerSecret("jobs-database-secret");
+  db.addJob(job);
+  assertEquals(db.fileResults(job.id), {});
+
+  db.setFileResults(job, {
+    "a.xml": { status: "ok" },
+    "b.xml": { status: "failed", reason: "Invalid jobs-database-secret" },
+    "c.xml": { status: "skipped", reason: "Unchanged" },
+  });
+  assertEquals(db.getJob(job.id)?.fileResults, {
+    ok: 1,
+    failed: 1,
+    skipped: 1,
+  });
+  assertEquals(db.fileResults(job.id)["b.xml"], {
+    status: "failed",
+    reason: "Invalid ***",
+  });
+
+  // a later attempt replaces the results
+  db.setFileResults(job, { "b.xml": { status: "ok" } });
+  assertEquals(db.fileResults(job.id), { "b.xml": { status: "ok" } });
+  assertEquals(db.getJob(job.id)?.fileResults, {
+    ok: 1,
+    failed: 0,
+    skipped: 0,
+  });
+});
+
+Deno.test("JobsDataBase - fails jobs interrupted while running", () => {
+  const db = freshDataBase();
+  const running = { id: "2024-01-01T00:00:00.000Z", author };
+  const queued = { id: "2024-01-01T00:00:01.000Z", author };
+  db.addJob(running);
+  db.addJob(queued);
+  db.setStatus(running, "running");
+
+  assertEquals(db.failInterruptedJobs(), [running.id]);
+  assertEquals(db.getJob(running.id)?.status, "failed");
+  assertEquals(db.getJob(queued.id)?.status, "queued");
+});
+
+Deno.test("JobsDataBase - getJob rejects ids escaping the jobs directory", () => {
+  const db = freshDataBase();
+
+  assertEquals(db.getJob(".."), undefined);
+  assertEquals(db.getJob("../jobs-test"), undefined);
+});
+
+Deno.test("JobsDataBase - leases full update chunks in parallel", () => {
+  const db = freshDataBase();
+  const chunk1 = {
+    id: "2024-01-01 full update: 001 of 002",
+    author,
+    files: { modified: ["a"] },
+  };
+  const chunk2 = {
+    id: "2024-01-01 full update: 002 of 002",
+    author,
+    files: { modified: ["b"] },
+  };
+  db.addJob(chunk1);
+  db.addJob(chunk2);
+
+  assertEquals(db.leaseNextJob("0")?.job.id, chunk1.id);
+  assertEquals(db.leaseNextJob("1")?.job.id, chunk2.id);
+  assertEquals(db.leaseNextJob("2"), undefined);
+  assertEquals(db.getJob(chunk2.id)?.workerId, "1");
+});
+
+Deno.test("JobsDataBase - serializes chunks of different full updates", () => {
+  const db = freshDataBase();
+  const fullUpdate = (time: string) => {
+    const gather = {
+      id: `${time} full update gathering`,
+      type: "full_update_gather" as const,
+      author,
+    };
+    const chunks = ["a", "b"].map((file, i) => ({
+      id: `${time} full update: 00${i + 1} of 002`,
+      author,
+      files: { modified: [file], removed: [] },
+    }));
+    db.addJob(gather);
+    db.setStatus(gather, "completed");
+    db.addChildJobs(gather, chunks);
+    return chunks;
+  };
+  const first = fullUpdate("2024-01-01T00:00:00.000Z");
+  const second = fullUpdate("2024-01-01T00:00:01.000Z");
+
+  assertEquals(db.leaseNextJob("0")?.job.id, first[0].id);
+  assertEquals(db.leaseNextJob("1")?.job.id, first[1].id);
+  assertEquals(db.leaseNextJob("2"), undefined);
+
+  db.setStatus(first[0], "completed");
+  assertEquals(db.leaseNextJob("2")?.job.id, second[0].id);
+});
+
+Deno.test("JobsDataBase - keeps the order of jobs touching the same files", () => {
+  const db = freshDataBase();
+  const changes = (modified: string[]) => ({
+    from: "a",
+    till: "b",
+    added: [],
+    removed: [],
+    modified,
+  });
+  const first = {
+    id: "2024-01-01T00:00:00.000Z",
+    author,
+    files: changes(["x", "y"]),
+  };
+  const second = {
+    id: "2024-01-01T00:00:01.000Z",
+    author,
+    files: changes(["y"]),
+  };
+  const unrelated = {
+    id: "2024-01-01T00:00:02.000Z",
+    author,
+    files: changes(["z"]),
+  };
+  db.addJob(first);
+  db.addJob(second);
+  db.addJob(unrelated);
+
+  assertEquals(db.leaseNextJob("0")?.job.id, first.id);
+  assertEquals(db.leaseNextJob("1")?.job.id, unrelated.id);
+  assertEquals(db.leaseNextJob("2"), undefined);
+
+  db.setStatus(first, "completed");
+  assertEquals(db.leaseNextJob("2")?.job.id, second.id);
+});
+
+Deno.test("JobsDataBase - coalesces queued webhook jobs", () => {
+  const db = freshDataBase();
+  const push = (id: string, from: string, till: string, files: {
+    added?: string[];
+    modified?: string[];
+    removed?: string[];
+  }) => ({
+    id,
+    from,
+    till,
+    author,
+    files: {
+      from,
+      till,
+      added: files.added ?? [],
+      modified: files.modified ?? [],
+      removed: files.removed ?? [],
+    },
+  });
+  const first = push("2024-01-01T00:00:00.000Z", "a", "b", { added: ["x"] });
+  const second = push("2024-01-01T00:00:01.000Z", "b", "c", { removed: ["x"] });
+  const third = push("2024-01-01T00:00:02.000Z", "c", "d", { modified: ["y"] });
+  db.addJob(first);
+  db.addJob(second);
+  db.addJob(third);
+
+  const merged = db.coalesceWebhookJobs();
+  assertEquals(merged?.supersedes, [first.id, second.id, third.id]);
+  assertEquals(merged?.job.files, {
+    from: "a",
+    till: "d",
+    added: [],
+    modified: ["y"],
+    removed: [],
+  });
+  assertEquals(db.getJob(second.id)?.status, "superseded");
+  assertEquals(db.getJob(second.id)?.supersededBy, merged?.job.id);
+  assertEquals(db.queuedJobs().map((js) => js.job.id), [merged?.job.id]);
+
+  const fourth = push(db.newJobId(), "d", "e", { added: ["z"] });
+  db.addJob(fourth);
+  const remerged = db.coalesceWebhookJobs();
+  assertEquals(remerged?.supersedes, [merged?.job.id, fourth.id]);
+  assertEquals(remerged?.job.id.endsWith("Z merged"), true);
+  assertEquals(db.getJob(merged!.job.id)?.supersededBy, remerged?.job.id);
+});
+
+Deno.test("JobsDataBase - only coalesces webhook jobs queued after other jobs", () => {
+  const db = freshDataBase();
+  const push = (id: string, from: string, till: string) => ({
+    id,
+    from,
+    till,
+    author,
+    files: { from, till, added: [], modified: ["x"], removed: [] },
+  });
+  const first = push("2024-01-01T00:00:00.000Z", "a", "b");
+  const second = push("2024-01-01T00:00:01.000Z", "b", "c");
+  const update = { id: "2024-01-01T00:00:02.000Z", author, from: "a" };
+  const third = push("2024-01-01T00:00:03.000Z", "c", "d");
+  const fourth = push("2024-01-01T00:00:04.000Z", "d", "e");
+  for (const job of [first, second, update, third, fourth]) db.addJob(job);
+
+  const merged = db.coalesceWebhookJobs();
+  assertEquals(merged?.supersedes, [third.id, fourth.id]);
+  assertEquals(db.queuedJobs().map((js) => js.job.id), [
+    first.id,
+    second.id,
+    update.id,
+    merged?.job.id,
+  ]);
+  assertEquals(db.coalesceWebhookJobs(), undefined);
+});
+
+Deno.test("JobsDataBase - groups child jobs under their parent", () => {
+  const db = freshDataBase();
+  const gather = {
+    id: "2024-01-01T00:00:00.000Z full update gathering",
+    type: "full_update_gather" as const,
+    author,
+  };
+  const chunk = (n: number, modified: string[]) => ({
+    id: `2024-01-01T00:00:00.000Z full update: 00${n} of 003`,
+    author,
+    files: { modified, removed: [] },
+  });
+  const chunks = [chunk(1, ["a", "b"]), chunk(2, ["c"]), chunk(3, ["d"])];
+  const later = { id: "2024-01-01T00:00:01.000Z", author };
+  db.addJob(gather);
+  db.setStatus(gather, "completed");
+  db.addChildJobs(gather, chunks);
+  db.addJob(later);
+  db.setStatus(chunks[0], "completed");
+  db.setStatus(chunks[1], "failed", "error");
+
+  const tree = db.jobTree();
+  assertEquals(tree.map((js) => js.job.id), [later.id, gather.id]);
+  assertEquals(
+    tree[1].children?.map((js) => js.job.id),
+    chunks.map((j) => j.id),
+  );
+  assertEquals(tree[1].progress, {
+    total: 3,
+    completed: 1,
+    failed: 1,
+    cancelled: 0,
+    remaining: 1,
+    files: 4,
+    processedFiles: 2,
+  });
+  assertEquals(db.jobTree([1, 2]).map((js) => js.job.id), [gather.id]);
+});
+
+Deno.test("JobsDataBase - resumes interrupted full updates", () => {
+  const db = freshDataBase();
+  const gather = {
+    id: "2024-01-01T00:00:00.000Z full update gathering",
+    type: "full_update_gather" as const,
+    author,
+  };
+  const chunk = {
+    id: "2024-01-01T00:00:00.000Z full update: 001 of 001",
+    author,
+    files: { modified: ["a"], removed: [] },
+  };
+  const other = { id: "2024-01-01T00:00:01.000Z", author };
+  db.addJob(gather);
+  db.setStatus(gather, "completed");
+  db.addChildJobs(gather, [chunk]);
+  db.addJob(other);
+  db.setStatus(chunk, "running");
+  db.setStatus(other, "running");
+
+  assertEquals(db.resumeInterruptedJobs(), [chunk.id]);
+  assertEquals(db.failInterruptedJobs(), [other.id]);
+  assertEquals(db.getJob(chunk.id)?.status, "queued");
+  assertEquals(db.getJob(chunk.id)?.parent, gather.id);
+  assertEquals(db.leaseNextJob("0")?.job.id, chunk.id);
+});
+
+Deno.test("JobsDataBase - keeps the jobs of different repositories apart", () => {
+  const db = freshDataBase();
+  const push = (id: string, repository: string) => ({
+    id,
+    author,
+    repository,
+    files: { from: "a", till: "b", added: [], removed: [], modified: ["x"] },
+  });
+  const a1 = push("2024-01-01T00:00:00.000Z org_a", "org/a");
+  const b1 = push("2024-01-01T00:00:01.000Z org_b", "org/b");
+  const a2 = push("2024-01-01T00:00:02.000Z org_a", "org/a");
+  db.addJob(a1);
+  db.addJob(b1);
+  db.addJob(a2);
+
+  assertEquals(db.coalesceWebhookJobs("org/b"), undefined);
+  const merged = db.coalesceWebhookJobs("org/a");
+  assertEquals(merged?.supersedes, [a1.id, a2.id]);
+  assertEquals(db.leaseNextJob("0")?.job.id, b1.id);
+  assertEquals(db.leaseNextJob("1")?.job.id, merged?.job.id);
+  assertEquals(db.jobTree(undefined, "org/b").map((js) => js.job.id), [b1.id]);
+});
+
+Deno.test("JobsDataBase - runs pull request previews next to other jobs", () => {
+  const db = freshDataBase();
+  const preview = (id: string, number: number) => ({
+    id,
+    type: "pull_request" as const,
+    preview: true as const,
+    pullRequest: { number, title: `PR ${number}`, action: "opened" },
+    from: "a",
+    till: "b",
+    author,
+  });
+  const update = { id: "2024-01-01T00:00:00.000Z", from: "a", author };
+  const pr1 = preview("2024-01-01T00:00:01.000Z pull request 1", 1);
+  const pr2 = preview("2024-01-01T00:00:02.000Z pull request 2", 2);
+  const pr1Again = preview("2024-01-01T00:00:03.000Z pull request 1", 1);
+  db.addJob(update);
+  db.addJob(pr1);
+  db.addJob(pr2);
+  db.addJob(pr1Again);
+
+  assertEquals(db.leaseNextJob("0")?.job.id, update.id);
+  assertEquals(db.leaseNextJob("1")?.job.id, pr1.id);
+  assertEquals(db.leaseNextJob("2")?.job.id, pr2.id);
+  assertEquals(db.leaseNextJob("3"), undefined);
+  assertEquals(
+    db.pullRequests().map((pr) => [pr.number, pr.runs.map((js) => js.job.id)]),
+    [[1, [pr1Again.id, pr1.id]], [2, [pr2.id]]],
+  );
+  db.setStatus(pr1, "failed");
+  assertEquals(db.latestResult(), undefined);
+});
+
+Deno.test("JobsDataBase - prunes old jobs but keeps unfinished and recently failed ones", async () => {
+  const db = freshDataBase();
+  const day = 24 * 60 * 60 * 1000;
+  const gather = {
+    id: "2024-01-01T00:00:00.000Z full update gathering",
+    type: "full_update_gather" as const,
+    author,
+  };
+  const chunk = {
+    id: "2024-01-01T00:00:00.000Z full update: 001 of 001",
+    author,
+    files: { modified: ["a"], removed: [] },
+  };
+  const queued = { id: "2024-01-01T00:00:01.000Z", author };
+  const completed = { id: "2024-01-01T00:00:02.000Z", author };
+  const failed = { id: "2024-01-01T00:00:03.000Z", author };
+  const recent = [
+    { id: "2024-01-01T00:00:04.000Z", author },
+    { id: "2024-01-01T00:00:05.000Z", author },
+  ];
+  db.addJob(gather);
+  db.setStatus(gather, "completed");
+  db.addChildJobs(gather, [chunk]);
+  db.setStatus(chunk, "running");
+  db.addJob(queued);
+  db.addJob(completed);
+  db.setStatus(completed, "completed");
+  db.addJob(failed);
+  db.setStatus(failed, "failed", "error");
+  for (const job of recent) {
+    db.addJob(job);
+    db.setStatus(job, "completed");
+  }
+  const policy = { keepLast: 2, keepFailedDays: 30 };
+
+  assertEquals(await db.prune(policy, Date.now() + 10 * day), {
+    removed: [completed.id],
+    compressed: [],
+  });
+  assertEquals(db.getJob(completed.id), undefined);
+  assert(!existsSync(`${jobsDir}/${completed.id}`));
+
+  db.setStatus(chunk, "completed");
+  assertEquals(await db.prune(policy, Date.now() + 40 * day), {
+    removed: [failed.id, gather.id, chunk.id],
+    compressed: [],
+  });
+  assertEquals(db.allJobs().map((js) => js.job.id), [
+    recent[1].id,
+    recent[0].id,
+    queued.id,
+  ]);
+});
+
+Deno.test("JobsDataBase - prunes old failed jobs without keepLast", async () => {
+  const db = freshDataBase();
+  const day = 24 * 60 * 60 * 1000;
+  const completed = { id: "2024-01-01T00:00:00.000Z", author };
+  const failed = { id: "2024-01-01T00:00:01.000Z", author };
+  const gather = {
+    id: "2024-01-01T00:00:02.000Z full update gathering",
+    type: "full_update_gather" as const,
+    author,
+  };
+  const chunk = {
+    id: "2024-01-01T00:00:02.000Z full update: 001 of 001",
+    author,
+    files: { modified: ["a"], removed: [] },
+  };
+  db.addJob(completed);
+  db.setStatus(completed, "completed");
+  db.addJob(failed);
+  db.setStatus(failed, "failed", "error");
+  db.addJob(gather);
+  db.setStatus(gather, "completed");
+  db.addChildJobs(gather, [chunk]);
+  db.setStatus(chunk, "failed", "error");
+  const policy = { keepFailedDays: 30 };
+
+  assertEquals(await db.prune(policy, Date.now() + 10 * day), {
+    removed: [],
+    compressed: [],
+  });
+  assertEquals(await db.prune(policy, Date.now() + 40 * day), {
+    removed: [gather.id, chunk.id, failed.id],
+    compressed: [],
+  });
+  assertEquals(db.allJobs().map((js) => js.job.id), [completed.id]);
+});
+
+Deno.test("JobsDataBase - compresses the logs of old jobs", async () => {
+  const db = freshDataBase();
+  const day = 24 * 60 * 60 * 1000;
+  const finished = { id: "2024-01-01T00:00:00.000Z", author };
+  const queued = { id: "2024-01-01T00:00:01.000Z", author };
+  db.addJob(finished);
+  db.setStatus(finished, "completed");
+  db.addJob(queued);
+  const log = `${jobsDir}/${finished.id}/log.txt`;
+  Deno.writeTextFileSync(log, "line\n".repeat(1000));
+  Deno.writeTextFileSync(`${jobsDir}/${queued.id}/log.txt`, "waiting\n");
+
+  const policy = { compressLogsAfterDays: 7 };
+  assertEquals(await db.prune(policy, Date.now() + day), {
+    removed: [],
+    compressed: [],
+  });
+  assertEquals(await db.prune(policy, Date.now() + 8 * day), {
+    removed: [],
+    compressed: [finished.id],
+  });
+  assert(!existsSync(log));
+  assert(Deno.statSync(`${log}.gz`).size < 1000);
+  assert(existsSync(`${jobsDir}/${queued.id}/log.txt`));
+
+  await decompressLog(`${jobsDir}/${finished.id}`);
+  assertEquals(Deno.readTextFileSync(log), "line\n".repeat(1000));
+  assert(!existsSync(`${log}.gz`));
+});
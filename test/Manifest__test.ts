@@ -0,0 +1,22 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { Manifest } from "../src/Manifest.ts";
+
+const manifestFile = "./workdir/manifest-test.txt";
+
+Deno.test("Manifest - records processed and removed files", async () => {
+  try {
+    Deno.removeSync(manifestFile);
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  Deno.mkdirSync("./workdir", { recursive: true });
+  const manifest = new Manifest(manifestFile);
+  assertEquals(manifest.read(), new Set());
+
+  await manifest.update({ added: ["a", "b"], modified: ["c"] });
+  await manifest.update({ removed: ["b"], modified: ["d"] });
+
+  assertEquals(manifest.read(), new Set(["a", "c", "d"]));
+  assertEquals(new Manifest(manifestFile).read(), new Set(["a", "c", "d"]));
+});
@@ -1,5 +1,24 @@
-import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
-import { verifyBasicAuth } from "../src/helpers.ts";
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  abortable,
+  branchDir,
+  createBranchFilter,
+  createPathFilter,
+  filterChanges,
+  isRetryable,
+  jobType,
+  mergeChanges,
+  repositoryDir,
+  retryDelay,
+  sourceRepositories,
+  verifyBasicAuth,
+  verifySignature,
+} from "../src/helpers.ts";
+import { type ChangeSummary, type Config } from "../mod.ts";
 
 Deno.test("verifyBasicAuth - correct credentials", () => {
   const password = "test-password";
@@ -55,3 +74,263 @@ Deno.test("verifyBasicAuth - malformed base64 credentials", () => {
 
   assertEquals(verifyBasicAuth(request, password), false);
 });
+
+// from the GitHub documentation on validating webhook deliveries
+const secret = "It's a Secret to Everybody";
+const payload = new TextEncoder().encode("Hello, World!");
+const signature =
+  "757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17";
+
+Deno.test("verifySignature - verifies GitHub signatures over the raw body", async () => {
+  const headers = (value: string) =>
+    new Headers({ "X-Hub-Signature-256": value });
+
+  assertEquals(
+    await verifySignature(headers(`sha256=${signature}`), payload, secret),
+    true,
+  );
+  assertEquals(
+    await verifySignature(
+      headers(`sha256=${signature}`),
+      new TextEncoder().encode("Hello, World! "),
+      secret,
+    ),
+    false,
+  );
+  assertEquals(
+    await verifySignature(headers(`sha256=${signature}`), payload, "wrong"),
+    false,
+  );
+  assertEquals(
+    await verifySignature(headers("sha256=abc"), payload, secret),
+    false,
+  );
+});
+
+Deno.test("verifySignature - supports Forgejo, Gitea and GitLab", async () => {
+  assertEquals(
+    await verifySignature(
+      new Headers({ "X-Forgejo-Signature": signature }),
+      payload,
+      secret,
+    ),
+    true,
+  );
+  assertEquals(
+    await verifySignature(
+      new Headers({ "X-Gitea-Signature": signature }),
+      payload,
+      secret,
+    ),
+    true,
+  );
+  assertEquals(
+    await verifySignature(
+      new Headers({ "X-Gitlab-Token": secret }),
+      payload,
+      secret,
+    ),
+    true,
+  );
+  assertEquals(
+    await verifySignature(
+      new Headers({ "X-Gitlab-Token": "guess" }),
+      payload,
+      secret,
+    ),
+    false,
+  );
+  assertEquals(await verifySignature(new Headers(), payload, secret), false);
+});
+
+Deno.test("retryDelay - doubles with every attempt up to maxDelay", () => {
+  const policy = { maxAttempts: 10, initialDelay: 100, maxDelay: 1000 };
+
+  assertEquals(retryDelay(policy, 1), 100);
+  assertEquals(retryDelay(policy, 2), 200);
+  assertEquals(retryDelay(policy, 4), 800);
+  assertEquals(retryDelay(policy, 5), 1000);
+});
+
+Deno.test("isRetryable - retries everything without retryableErrors", () => {
+  assertEquals(isRetryable({ maxAttempts: 2 }, new Error("anything")), true);
+});
+
+Deno.test("isRetryable - only retries matching errors", () => {
+  const policy = { maxAttempts: 2, retryableErrors: ["Cloning of .* failed"] };
+
+  assertEquals(
+    isRetryable(policy, new Error("Cloning of https://x into /y failed")),
+    true,
+  );
+  assertEquals(isRetryable(policy, new Error("Handler crashed")), false);
+});
+
+Deno.test("abortable - rejects when the signal is aborted first", async () => {
+  const controller = new AbortController();
+  const never = new Promise<string>(() => {});
+  const result = abortable(never, controller.signal);
+  controller.abort(new Error("Job timed out after 1s"));
+
+  await assertRejects(() => result, Error, "timed out");
+});
+
+Deno.test("abortable - resolves with the value of the promise", async () => {
+  const controller = new AbortController();
+
+  assertEquals(
+    await abortable(Promise.resolve("done"), controller.signal),
+    "done",
+  );
+});
+
+Deno.test("jobType - distinguishes the kinds of jobs", () => {
+  const author = { name: "Test", email: "test@example.org" };
+  const files = { from: "a", till: "b", added: [], removed: [], modified: [] };
+
+  assertEquals(jobType({ id: "1", author, files }), "webhook");
+  assertEquals(jobType({ id: "1", author, from: "a" }), "update");
+  assertEquals(
+    jobType({ id: "1", author, files: { modified: [], removed: [] } }),
+    "full_update",
+  );
+  // chunks queued by versions that did not detect removed files
+  assertEquals(
+    jobType({ id: "1", author, files: { modified: [] } }),
+    "full_update",
+  );
+  assertEquals(
+    jobType({ id: "1", author, type: "full_update_gather" }),
+    "full_update_gather",
+  );
+});
+
+Deno.test("mergeChanges - reconciles consecutive changes", () => {
+  assertEquals(
+    mergeChanges([
+      { added: ["new", "temp"], modified: ["a"], removed: ["gone"] },
+      { added: ["gone"], modified: ["new"], removed: ["temp", "b"] },
+      { added: [], modified: ["a"], removed: [] },
+    ]),
+    { added: ["new"], modified: ["a", "gone"], removed: ["b"] },
+  );
+});
+
+Deno.test("createPathFilter - applies include and exclude globs", () => {
+  const filter = createPathFilter({
+    include: ["data/**/*.xml"],
+    exclude: ["data/drafts/**"],
+  });
+
+  assertEquals(filter("data/a/b.xml"), true);
+  assertEquals(filter("data/b.xml"), true);
+  assertEquals(filter("data/drafts/c.xml"), false);
+  assertEquals(filter("README.md"), false);
+  assertEquals(createPathFilter({})("anything"), true);
+});
+
+Deno.test("filterChanges - filters all lists of changed files", () => {
+  const changes = {
+    from: "a",
+    till: "b",
+    added: ["x.xml", "x.png"],
+    removed: ["y.png"],
+    modified: ["z.xml"],
+  };
+
+  assertEquals(filterChanges(changes, (f) => f.endsWith(".xml")), {
+    from: "a",
+    till: "b",
+    added: ["x.xml"],
+    removed: [],
+    modified: ["z.xml"],
+  });
+});
+
+Deno.test("filterChanges - turns renames across the filter into additions and removals", () => {
+  const changes: ChangeSummary = {
+    from: "a",
+    till: "b",
+    added: [],
+    removed: [],
+    modified: [],
+    renamed: [
+      { from: "a.xml", to: "b.xml" },
+      { from: "c.png", to: "c.xml" },
+      { from: "d.xml", to: "d.png" },
+    ],
+    copied: [{ from: "e.png", to: "e.xml" }],
+  };
+
+  assertEquals(filterChanges(changes, (f) => f.endsWith(".xml")), {
+    from: "a",
+    till: "b",
+    added: ["c.xml", "e.xml"],
+    removed: ["d.xml"],
+    modified: [],
+    renamed: [{ from: "a.xml", to: "b.xml" }],
+    copied: [],
+  });
+});
+
+Deno.test("sourceRepositories - supports single and multiple repositories", () => {
+  const config = {
+    title: "Test",
+    description: "",
+    email: "test@example.org",
+    workDir: "/workdir",
+  };
+  const single = {
+    ...config,
+    sourceRepository: "org/a",
+    sourceRepositoryUri: "https://example.org/org/a.git",
+    sourceBranch: "main",
+  };
+  const repositories = [
+    { name: "org/a", uri: "https://example.org/org/a.git", branch: "main" },
+    { name: "org/b", uri: "https://example.org/org/b.git", branch: "dev" },
+  ];
+  const multiple = { ...config, sourceRepositories: repositories };
+
+  assertEquals(sourceRepositories(single), [repositories[0]]);
+  assertEquals(sourceRepositories(multiple), repositories);
+  assertEquals(repositoryDir(single, "org/a"), "/workdir");
+  assertEquals(
+    repositoryDir(multiple, "org/b"),
+    "/workdir/repositories/org%2Fb",
+  );
+  assertEquals(
+    repositoryDir(multiple, "org_b"),
+    "/workdir/repositories/org_b",
+  );
+  assertThrows(() => sourceRepositories(config));
+});
+
+Deno.test("createBranchFilter - matches branch names and patterns", () => {
+  const repository = {
+    name: "org/a",
+    uri: "https://example.org/org/a.git",
+    branch: "main",
+  };
+  const filter = createBranchFilter({
+    ...repository,
+    branches: ["main", "release/*"],
+  });
+
+  assertEquals(filter("main"), true);
+  assertEquals(filter("release/1.0"), true);
+  assertEquals(filter("feature/x"), false);
+  assertEquals(createBranchFilter(repository)("develop"), false);
+  assertEquals(
+    branchDir({ workDir: "/workdir" } as Config, repository, "main"),
+    "/workdir",
+  );
+  assertEquals(
+    branchDir({ workDir: "/workdir" } as Config, repository, "release/1.0"),
+    "/workdir/branches/release%2F1.0",
+  );
+  assertEquals(
+    branchDir({ workDir: "/workdir" } as Config, repository, "release_1.0"),
+    "/workdir/branches/release_1.0",
+  );
+});
@@ -0,0 +1,237 @@
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { JobsDataBase } from "../src/JobsDataBase.ts";
+import { FileSystemJobStore, SqliteJobStore } from "../src/jobStores.ts";
+
+const jobsDir = "./workdir/job-stores-test";
+const author = { name: "Test", email: "test@example.org" };
+
+function emptyJobsDir() {
+  try {
+    Deno.removeSync(jobsDir, { recursive: true });
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  Deno.mkdirSync(jobsDir, { recursive: true });
+}
+
+Deno.test("SqliteJobStore - queues, leases and groups jobs", () => {
+  emptyJobsDir();
+  const store = new SqliteJobStore(jobsDir);
+  try {
+    const db = new JobsDataBase(jobsDir, store);
+    const gather = {
+      id: "2024-01-01T00:00:00.000Z full update gathering",
+      type: "full_update_gather" as const,
+      repository: "org/a",
+      author,
+    };
+    const chunk = (n: number, modified: string[]) => ({
+      id: `2024-01-01T00:00:00.000Z full update: 00${n} of 002`,
+      repository: "org/a",
+      author,
+      files: { modified, removed: [] },
+    });
+    const chunks = [chunk(1, ["a"]), chunk(2, ["b"])];
+    const other = {
+      id: "2024-01-01T00:00:01.000Z",
+      repository: "org/b",
+      author,
+    };
+    db.addJob(gather);
+    db.setStatus(gather, "completed");
+    db.addChildJobs(gather, chunks);
+    db.addJob(other);
+
+    assertThrows(() => store.create(db.getJob(other.id)!));
+    assertEquals(db.queuedJobs().map((js) => js.job.id), [
+      chunks[0].id,
+      chunks[1].id,
+      other.id,
+    ]);
+    assertEquals(db.leaseNextJob("0")?.job.id, chunks[0].id);
+    assertEquals(db.leaseNextJob("1")?.job.id, chunks[1].id);
+    assertEquals(db.leaseNextJob("2")?.job.id, other.id);
+    assertEquals(db.leaseNextJob("3"), undefined);
+    assertEquals(db.getJob(chunks[1].id)?.workerId, "1");
+
+    db.setStatus(chunks[0], "completed");
+    db.setStatus(chunks[1], "failed", "error");
+    db.setStatus(other, "completed");
+    const tree = db.jobTree([0, 10], "org/a");
+    assertEquals(tree.map((js) => js.job.id), [gather.id]);
+    assertEquals(
+      tree[0].children?.map((js) => js.job.id),
+      chunks.map((j) => j.id),
+    );
+    assertEquals(tree[0].progress?.failed, 1);
+    assertEquals(db.jobTree([1, 2]).map((js) => js.job.id), [gather.id]);
+    assertEquals(db.childJobs(gather.id).length, 2);
+    assertEquals(db.latestResult("org/a"), "failed");
+    assertEquals(db.latestResult(), "completed");
+  } finally {
+    store.close();
+  }
+});
+
+Deno.test("SqliteJobStore - imports the jobs of a filesystem store", () => {
+  emptyJobsDir();
+  const filesystem = new JobsDataBase(jobsDir);
+  const finished = { id: "2024-01-01T00:00:00.000Z", author };
+  const running = { id: "2024-01-01T00:00:01.000Z", author };
+  const queued = { id: "2024-01-01T00:00:02.000Z", author };
+  filesystem.addJob(finished);
+  filesystem.setStatus(finished, "completed", "done");
+  filesystem.addJob(running);
+  filesystem.leaseNextJob("0");
+  filesystem.addJob(queued);
+
+  const store = new SqliteJobStore(jobsDir);
+  try {
+    const db = new JobsDataBase(jobsDir, store);
+    assertEquals(
+      db.allJobs().map((js) => [js.job.id, js.status, js.message]),
+      [
+        [queued.id, "queued", undefined],
+        [running.id, "running", undefined],
+        [finished.id, "completed", "done"],
+      ],
+    );
+    // the running job stays leased
+    assertEquals(store.claim(running.id, "1"), false);
+    assertEquals(store.claim(queued.id, "1"), true);
+    assertEquals(db.failInterruptedJobs(), [running.id]);
+  } finally {
+    store.close();
+  }
+
+  // jobs are only imported when the database is created
+  filesystem.addJob({ id: "2024-01-01T00:00:03.000Z", author });
+  const reopened = new SqliteJobStore(jobsDir);
+  try {
+    assertEquals(reopened.list().length, 3);
+  } finally {
+    reopened.close();
+  }
+});
+
+Deno.test("JobsDataBase - newJobId returns unique increasing ids", () => {
+  emptyJobsDir();
+  const db = new JobsDataBase(jobsDir, new FileSystemJobStore(jobsDir));
+  const ids = Array.from({ length: 50 }, () => db.newJobId(" webhook"));
+
+  assertEquals(new Set(ids).size, ids.length);
+  assertEquals([...ids].sort(), ids);
+  assert(ids.every((id) => id.endsWith(" webhook")));
+  for (const id of ids) db.addJob({ id, author });
+  assertEquals(db.allJobs().length, ids.length);
+});
+
+for (
+  const [name, open] of [
+    ["FileSystemJobStore", () => new FileSystemJobStore(jobsDir)],
+    ["SqliteJobStore", () => new SqliteJobStore(jobsDir)],
+  ] as const
+) {
+  Deno.test(`${name} - searches and paginates jobs`, () => {
+    emptyJobsDir();
+    const store = open();
+    try {
+      const db = new JobsDataBase(jobsDir, store);
+      const changes = (modified: string[]) => ({
+        from: "a",
+        till: "b",
+        added: [],
+        removed: [],
+        modified,
+      });
+      const jobs = [
+        { id: "2024-01-01T00:00:00.000Z", author, files: changes(["a.xml"]) },
+        { id: "2024-01-02T00:00:00.000Z", author, files: changes(["b.xml"]) },
+        { id: "2024-01-03T00:00:00.000Z", author, files: changes(["a.xml"]) },
+        { id: "2024-01-04T00:00:00.000Z", author, from: "a" },
+      ];
+      const gather = {
+        id: "2024-01-05T00:00:00.000Z full update gathering",
+        type: "full_update_gather" as const,
+        author,
+      };
+      const chunk = {
+        id: "2024-01-05T00:00:00.000Z full update: 001 of 001",
+        author,
+        files: { modified: ["a.xml", "c.xml"], removed: [] },
+      };
+      jobs.forEach((job, i) =>
+        db.addJob(job, "queued", undefined, `payload ${i}`)
+      );
+      db.setStatus(jobs[0], "failed", "Error: Could not parse a.xml");
+      db.setStatus(jobs[1], "completed");
+      db.setStatus(jobs[2], "failed", "Error: Timeout");
+      db.addJob(gather);
+      db.addChildJobs(gather, [chunk]);
+      db.setStatus(chunk, "failed", "Error: Could not PARSE c.xml");
+      const ids = (query: Parameters<typeof db.searchJobs>[0]) => {
+        const result = db.searchJobs(query);
+        return [result.jobs.map((js) => js.job.id), result.total, result.next];
+      };
+
+      assertEquals(ids({ limit: 2 }), [
+        [gather.id, jobs[3].id],
+        5,
+        jobs[3].id,
+      ]);
+      assertEquals(db.searchJobs({ limit: 2 }).jobs[0].children?.length, 1);
+      assertEquals(ids({ limit: 2, after: jobs[3].id }), [
+        [jobs[2].id, jobs[1].id],
+        5,
+        jobs[1].id,
+      ]);
+      assertEquals(ids({ limit: 2, after: jobs[1].id }), [
+        [jobs[0].id],
+        5,
+        undefined,
+      ]);
+      assertEquals(ids({ status: ["failed"] }), [
+        [chunk.id, jobs[2].id, jobs[0].id],
+        3,
+        undefined,
+      ]);
+      assertEquals(
+        ids({
+          status: ["failed"],
+          since: "2024-01-02T00:00:00.000Z",
+          until: "2024-01-05T00:00:00.000Z",
+        }),
+        [[jobs[2].id], 1, undefined],
+      );
+      assertEquals(ids({ file: "a.xml", oldestFirst: true }), [
+        [jobs[0].id, jobs[2].id, chunk.id],
+        3,
+        undefined,
+      ]);
+      assertEquals(ids({ search: "could not parse" }), [
+        [chunk.id, jobs[0].id],
+        2,
+        undefined,
+      ]);
+      assertEquals(ids({ payloadHash: "payload 1" }), [
+        [jobs[1].id],
+        1,
+        undefined,
+      ]);
+      assertEquals(db.hasPayloadHash("payload 2"), true);
+      assertEquals(db.hasPayloadHash("payload 5"), false);
+      assertEquals(ids({ type: ["update", "full_update_gather"] }), [
+        [gather.id, jobs[3].id],
+        2,
+        undefined,
+      ]);
+    } finally {
+      if (store instanceof SqliteJobStore) store.close();
+    }
+  });
+}
@@ -0,0 +1,147 @@
+import {
+  assertEquals,
+  assertMatch,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import { combineCommandOutputs, LogFn, type LogRecord } from "../src/log.ts";
+import { registerSecret } from "../src/secrets.ts";
+
+const logDir = "./workdir/log-test";
+
+function emptyLogDir() {
+  try {
+    Deno.removeSync(logDir, { recursive: true });
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  Deno.mkdirSync(logDir, { recursive: true });
+}
+
+/** The lines without their timestamp, after checking it is there */
+function untimed(text: string) {
+  const lines = text.trimEnd().split("\n");
+  for (const line of lines) {
+    assertMatch(line, /^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\.\d{3}Z /);
+  }
+  return lines.map((line) => line.slice(line.indexOf(" ") + 1));
+}
+
+function readRecords(file: string): LogRecord[] {
+  return Deno.readTextFileSync(file).trimEnd().split("\n").map((line) =>
+    JSON.parse(line)
+  );
+}
+
+Deno.test("LogFn - writes levelled messages and command output as JSON lines", async () => {
+  emptyLogDir();
+  const log = new LogFn(`${logDir}/log.txt`, false, {
+    jsonFile: `${logDir}/log.jsonl`,
+  });
+  const output = (text: string) => ReadableStream.from([text]);
+
+  log("Starting");
+  log("Retrying", "warn");
+  await log(
+    combineCommandOutputs(
+      output("out 1\nout 2\n").pipeThrough(new TextEncoderStream()),
+      output("").pipeThrough(new TextEncoderStream()),
+    ),
+  );
+  await log(
+    combineCommandOutputs(
+      output("").pipeThrough(new TextEncoderStream()),
+      output("failed\n").pipeThrough(new TextEncoderStream()),
+    ),
+    "error",
+  );
+
+  const text = Deno.readTextFileSync(`${logDir}/log.txt`);
+  assertEquals(untimed(text), [
+    "Starting",
+    "WARN: Retrying",
+    "OUT> out 1",
+    "OUT> out 2",
+    "ERROR: ERR> failed",
+  ]);
+  const records = readRecords(`${logDir}/log.jsonl`);
+  assertEquals(
+    text.trimEnd().split("\n").map((line) => line.split(" ")[0]),
+    records.map(({ time }) => time),
+  );
+  assertEquals(
+    records.map(({ time: _, ...record }) => record),
+    [
+      { level: "info", message: "Starting" },
+      { level: "warn", message: "Retrying" },
+      { level: "info", message: "out 1", stream: "stdout" },
+      { level: "info", message: "out 2", stream: "stdout" },
+      { level: "error", message: "failed", stream: "stderr" },
+    ],
+  );
+  assertEquals(
+    records.map(({ time }) => new Date(time).toISOString()),
+    records.map(({ time }) => time),
+  );
+});
+
+Deno.test("LogFn - only prints messages of at least consoleLevel", () => {
+  emptyLogDir();
+  const printed: string[] = [];
+  const { debug, log, warn } = console;
+  console.debug = console.log = console.warn = (message: string) => {
+    printed.push(message);
+  };
+  try {
+    const logFn = new LogFn(`${logDir}/log.txt`, true, {
+      consoleLevel: "warn",
+    });
+    logFn("Details", "debug");
+    logFn("Starting");
+    logFn("Retrying", "warn");
+  } finally {
+    Object.assign(console, { debug, log, warn });
+  }
+
+  assertEquals(untimed(printed.join("\n")), ["WARN: Retrying"]);
+  assertEquals(untimed(Deno.readTextFileSync(`${logDir}/log.txt`)), [
+    "DEBUG: Details",
+    "Starting",
+    "WARN: Retrying",
+  ]);
+});
+
+Deno.test("LogFn - redacts secrets from messages and command output", async () => {
+  emptyLogDir();
+  registerSecret("log-test-secret");
+  const log = new LogFn(`${logDir}/log.txt`, false, {
+    jsonFile: `${logDir}/log.jsonl`,
+  });
+
+  log("Using log-test-secret");
+  // the secret is split across chunks
+  await log(
+    ReadableStream.from(["fatal: log-te", "st-secret invalid\n"])
+      .pipeThrough(new TextEncoderStream()),
+  );
+
+  assertEquals(untimed(Deno.readTextFileSync(`${logDir}/log.txt`)), [
+    "Using ***",
+    "fatal: *** invalid",
+  ]);
+  assertEquals(
+    readRecords(`${logDir}/log.jsonl`).map(({ message }) => message),
+    ["Using ***", "fatal: *** invalid"],
+  );
+});
+
+Deno.test("LogFn - prefixes every line of a message", () => {
+  emptyLogDir();
+  const log = new LogFn(`${logDir}/log.txt`, false);
+
+  log("Error: failed\n    at job", "error");
+
+  assertEquals(untimed(Deno.readTextFileSync(`${logDir}/log.txt`)), [
+    "ERROR: Error: failed",
+    "ERROR:     at job",
+  ]);
+});
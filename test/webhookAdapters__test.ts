@@ -0,0 +1,129 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+
+import {
+  defaultWebhookAdapters,
+  selectWebhookAdapter,
+} from "../src/webhookAdapters.ts";
+
+function fixture(name: string): unknown {
+  return JSON.parse(
+    Deno.readTextFileSync(
+      new URL(`./fixtures/webhooks/${name}.json`, import.meta.url),
+    ),
+  );
+}
+
+function select(headers: Record<string, string>) {
+  return selectWebhookAdapter(defaultWebhookAdapters, new Headers(headers));
+}
+
+const changes = [
+  { added: ["data/new.xml"], removed: [], modified: ["README.md"] },
+  { added: [], removed: ["data/old.xml"], modified: ["data/new.xml"] },
+];
+
+Deno.test("webhookAdapters - normalises GitHub pushes", () => {
+  const selected = select({ "X-GitHub-Event": "push" });
+
+  assertEquals(selected?.adapter.name, "GitHub");
+  assertEquals(selected?.event, "push");
+  assertEquals(
+    selected?.adapter.repository(fixture("github_push")),
+    "test/repo",
+  );
+  assertEquals(selected?.adapter.push(fixture("github_push")), [{
+    repository: "test/repo",
+    ref: "refs/heads/main",
+    before: "6113728f27ae82c7b1a177c8d03f9e96e0adf246",
+    after: "0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c",
+    deleted: false,
+    forced: false,
+    pusher: { name: "octocat", email: "octocat@github.com" },
+    commits: changes,
+    truncated: false,
+  }]);
+  assertEquals(select({ "X-Forgejo-Event": "release" })?.event, "release");
+  assertEquals(select({})?.event, "push");
+});
+
+Deno.test("webhookAdapters - normalises GitLab pushes", () => {
+  const selected = select({ "X-Gitlab-Event": "Push Hook" });
+
+  assertEquals(selected?.adapter.name, "GitLab");
+  assertEquals(selected?.event, "push");
+  assertEquals(
+    selected?.adapter.repository(fixture("gitlab_push")),
+    "test/repo",
+  );
+  assertEquals(selected?.adapter.push(fixture("gitlab_push")), [{
+    repository: "test/repo",
+    ref: "refs/heads/main",
+    before: "95790bf891e76fee5e1747ab589903a6a1f80f22",
+    after: "da1560886d4f094c3e6c9ef40349f7d38b5d27d7",
+    deleted: false,
+    pusher: { name: "John Smith", email: "john@example.com" },
+    commits: changes,
+    truncated: false,
+  }]);
+  assertEquals(select({ "X-Gitlab-Event": "Tag Push Hook" })?.event, "push");
+  assertEquals(
+    select({ "X-Gitlab-Event": "Merge Request Hook" })?.event,
+    "Merge Request Hook",
+  );
+});
+
+Deno.test("webhookAdapters - detects truncated GitLab commit lists", () => {
+  const payload = {
+    ...fixture("gitlab_push") as Record<string, unknown>,
+    total_commits_count: 25,
+  };
+
+  assertEquals(
+    select({ "X-Gitlab-Event": "Push Hook" })?.adapter.push(payload)[0]
+      .truncated,
+    true,
+  );
+});
+
+Deno.test("webhookAdapters - normalises Bitbucket Server pushes", () => {
+  const selected = select({ "X-Event-Key": "repo:refs_changed" });
+
+  assertEquals(selected?.adapter.name, "Bitbucket Server");
+  assertEquals(selected?.event, "push");
+  assertEquals(
+    selected?.adapter.repository(fixture("bitbucket_server_push")),
+    "TEST/repo",
+  );
+  assertEquals(selected?.adapter.push(fixture("bitbucket_server_push")), [{
+    repository: "TEST/repo",
+    ref: "refs/heads/main",
+    before: "ecddabb624f6f5ba43816f5926e580a5f680a932",
+    after: "178864a7d521b6f5e720b386b2c2b0ef8563e0dc",
+    deleted: false,
+    pusher: { name: "Administrator", email: "admin@example.com" },
+  }]);
+  assertEquals(select({ "X-Event-Key": "diagnostics:ping" })?.event, "ping");
+});
+
+Deno.test("webhookAdapters - read the delivery IDs", () => {
+  const delivery = (headers: Record<string, string>) =>
+    select(headers)?.adapter.delivery?.(new Headers(headers));
+
+  assertEquals(
+    delivery({ "X-GitHub-Event": "push", "X-GitHub-Delivery": "1" }),
+    "1",
+  );
+  assertEquals(
+    delivery({ "X-Forgejo-Event": "push", "X-Forgejo-Delivery": "2" }),
+    "2",
+  );
+  assertEquals(
+    delivery({ "X-Gitlab-Event": "Push Hook", "X-Gitlab-Event-UUID": "3" }),
+    "3",
+  );
+  assertEquals(
+    delivery({ "X-Event-Key": "repo:refs_changed", "X-Request-Id": "4" }),
+    "4",
+  );
+  assertEquals(delivery({ "X-Event-Key": "repo:refs_changed" }), undefined);
+});